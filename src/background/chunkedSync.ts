@@ -0,0 +1,67 @@
+// Values that can outgrow one chrome.storage.sync item (QUOTA_BYTES_PER_ITEM, 8 KB): the site rules
+// map and the dictionary lists. They are stored as JSON text split across "<key>:0", "<key>:1", …
+// with the chunk count under "<key>:n". A plain "<key>" item is the format before chunking; it is
+// still read and is removed on the next write.
+
+// Each character takes at most 3 bytes in UTF-8 or 2 once JSON-escaped, so a chunk and its key stay
+// well under 8 KB
+const CHUNK_CHARS = 2000;
+
+const countKey = (key: string) => `${key}:n`;
+const chunkKey = (key: string, i: number) => `${key}:${i}`;
+
+function chunkKeys(key: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => chunkKey(key, i));
+}
+
+function parseChunks(key: string, chunks: unknown[]): unknown {
+  try {
+    return JSON.parse(chunks.map((c) => (typeof c === 'string' ? c : '')).join(''));
+  } catch {
+    // Chunks from another device still arriving; never treat that as empty and write over it
+    throw new Error(`Stored "${key}" is incomplete; try again in a moment.`);
+  }
+}
+
+export async function readChunked<T>(key: string): Promise<T | undefined> {
+  const head = await chrome.storage.sync.get([key, countKey(key)]);
+  const count = head[countKey(key)];
+  if (typeof count !== 'number') return head[key] as T | undefined;
+  const keys = chunkKeys(key, count);
+  const res = await chrome.storage.sync.get(keys);
+  return parseChunks(key, keys.map((k) => res[k])) as T;
+}
+
+export async function writeChunked(key: string, value: unknown): Promise<void> {
+  const json = JSON.stringify(value);
+  const items: Record<string, unknown> = {};
+  let count = 0;
+  for (let i = 0; i < json.length; i += CHUNK_CHARS) items[chunkKey(key, count++)] = json.slice(i, i + CHUNK_CHARS);
+  items[countKey(key)] = count;
+  const prev = (await chrome.storage.sync.get(countKey(key)))[countKey(key)];
+  // New chunks and count in one write, so readers never mix old and new chunks; then drop leftovers
+  await chrome.storage.sync.set(items);
+  const stale = [key, ...chunkKeys(key, typeof prev === 'number' ? prev : 0).slice(count)];
+  await chrome.storage.sync.remove(stale);
+}
+
+// Whether a storage.onChanged event touched a chunked value
+export function chunkedKeyChanged(changes: Record<string, chrome.storage.StorageChange>, key: string): boolean {
+  return Object.keys(changes).some((k) => k === key || k.startsWith(`${key}:`));
+}
+
+// The whole value before a storage.onChanged event: changed chunks from the event, the rest as stored
+export async function previousChunked<T>(changes: Record<string, chrome.storage.StorageChange>, key: string): Promise<T | undefined> {
+  const countChange = changes[countKey(key)];
+  const count = countChange ? countChange.oldValue : (await chrome.storage.sync.get(countKey(key)))[countKey(key)];
+  if (typeof count !== 'number') {
+    return (changes[key] ? changes[key].oldValue : (await chrome.storage.sync.get(key))[key]) as T | undefined;
+  }
+  const keys = chunkKeys(key, count);
+  const stored = await chrome.storage.sync.get(keys.filter((k) => !changes[k]));
+  try {
+    return parseChunks(key, keys.map((k) => (changes[k] ? changes[k].oldValue : stored[k]))) as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,312 @@
+// MV3 service worker: the single owner of settings, per-site state, usage stats, context menus and
+// keyboard commands. Content scripts and the popup talk to it over chrome.runtime messaging and get
+// change notifications pushed to them instead of each tab watching chrome.storage on its own.
+// The worker can be stopped at any time, so everything lives in storage and listeners are
+// registered synchronously at the top level.
+
+import {
+  MODEL_CLIENT_PORT, MODEL_HOST_PORT,
+  type BackgroundRequest, type ContextAction, type StateResponse, type TabMessage, type TyperraCommand,
+} from '../shared/messages';
+import {
+  DEFAULT_SETTINGS, DICTIONARY_KEY, IGNORE_RULES_KEY, LAST_REWRITE_KEY, SITES_KEY, USAGE_KEY, normalizeWords, sameIgnoreRule,
+  type Dictionary, type RewriteOptions, type RewritePreset, type Settings, type SitePatch, type SiteState, type UsageStats,
+} from '../shared/settings';
+import { chunkedKeyChanged, previousChunked, readChunked, writeChunked } from './chunkedSync';
+import { attachModelClient, attachModelHost, configureModelHost } from './modelHost';
+
+const MENU_OPEN_PANEL = 'typerra-open-panel';
+const MENU_REWRITE = 'typerra-rewrite';
+const MENU_PRESET_SEPARATOR = 'typerra-rewrite-presets';
+// Rewrite presets are appended to the Rewrite submenu as "typerra-preset:<preset id>"
+const MENU_PRESET_PREFIX = 'typerra-preset:';
+
+// Context menu items that run an action on the selection in the clicked frame
+const MENU_ACTIONS: Record<string, { title: string; parentId?: string; action: ContextAction }> = {
+  'typerra-proofread': { title: 'Proofread selection', action: { kind: 'proofread' } },
+  'typerra-rewrite-formal': { title: 'More formal', parentId: MENU_REWRITE, action: { kind: 'rewrite', tone: 'more-formal', length: 'as-is' } },
+  'typerra-rewrite-casual': { title: 'More casual', parentId: MENU_REWRITE, action: { kind: 'rewrite', tone: 'more-casual', length: 'as-is' } },
+  'typerra-rewrite-shorter': { title: 'Shorter', parentId: MENU_REWRITE, action: { kind: 'rewrite', tone: 'as-is', length: 'shorter' } },
+  'typerra-rewrite-longer': { title: 'Longer', parentId: MENU_REWRITE, action: { kind: 'rewrite', tone: 'as-is', length: 'longer' } },
+  'typerra-write': { title: 'Write from selection as prompt', action: { kind: 'write' } },
+};
+
+async function loadSettings(): Promise<Settings> {
+  const res = await chrome.storage.sync.get(DEFAULT_SETTINGS);
+  // Nested maps are stored whole; fill in entries added by newer versions
+  return {
+    ...DEFAULT_SETTINGS,
+    ...res,
+    shortcuts: { ...DEFAULT_SETTINGS.shortcuts, ...res.shortcuts },
+    providers: { ...DEFAULT_SETTINGS.providers, ...res.providers },
+    openAiServer: { ...DEFAULT_SETTINGS.openAiServer, ...res.openAiServer },
+  } as Settings;
+}
+
+// The sites map and the dictionary lists grow with use, so they are split across sync items
+// (chunkedSync.ts) instead of each being one item capped at 8 KB
+async function loadSites(): Promise<Record<string, SiteState>> {
+  return (await readChunked<Record<string, SiteState>>(SITES_KEY)) || {};
+}
+
+// Serialize read-modify-write of the map; two tabs ignoring fields at once must both land
+let sitesQueue: Promise<unknown> = Promise.resolve();
+function editSites<T>(edit: (sites: Record<string, SiteState>) => T): Promise<T> {
+  const run = sitesQueue.then(async () => {
+    const sites = await loadSites();
+    const result = edit(sites);
+    await writeChunked(SITES_KEY, sites);
+    return result;
+  });
+  sitesQueue = run.catch(() => {});
+  return run;
+}
+
+function updateSite(origin: string, patch: SitePatch): Promise<SiteState> {
+  return editSites((sites) => {
+    const next: Record<string, unknown> = { ...sites[origin], ...patch };
+    // Drop cleared rules so the synced map only holds origins with real overrides
+    for (const key of Object.keys(next)) {
+      if (next[key] == null) delete next[key];
+    }
+    if (Object.keys(next).length) sites[origin] = next as SiteState;
+    else delete sites[origin];
+    return next as SiteState;
+  });
+}
+
+async function loadDictionary(): Promise<Dictionary> {
+  const [words, ignoreRules] = await Promise.all([
+    readChunked<string[]>(DICTIONARY_KEY),
+    readChunked<Dictionary['ignoreRules']>(IGNORE_RULES_KEY),
+  ]);
+  return { words: words || [], ignoreRules: ignoreRules || [] };
+}
+
+// Serialize edits like the usage counters: "Add to dictionary" in two tabs must not drop a word
+let dictionaryQueue: Promise<unknown> = Promise.resolve();
+function updateDictionary(edit: (dictionary: Dictionary) => Partial<Dictionary>): Promise<Dictionary> {
+  const run = dictionaryQueue.then(async () => {
+    const dictionary = await loadDictionary();
+    const next = { ...dictionary, ...edit(dictionary) };
+    try {
+      if (next.words !== dictionary.words) await writeChunked(DICTIONARY_KEY, next.words);
+      if (next.ignoreRules !== dictionary.ignoreRules) await writeChunked(IGNORE_RULES_KEY, next.ignoreRules);
+    } catch (e: any) {
+      // QUOTA_BYTES: sync storage holds about 100 KB per extension, shared with settings and sites
+      throw new Error(`Could not save the dictionary (sync storage may be full): ${e?.message || e}`);
+    }
+    return next;
+  });
+  dictionaryQueue = run.catch(() => {});
+  return run;
+}
+
+async function loadUsage(): Promise<UsageStats> {
+  const res = await chrome.storage.local.get(USAGE_KEY);
+  return (res?.[USAGE_KEY] as UsageStats) || { counts: {}, since: Date.now() };
+}
+
+// Serialize read-modify-write of the usage counters; several tabs report at once
+let usageQueue: Promise<unknown> = Promise.resolve();
+function recordUsage(action: keyof UsageStats['counts']): Promise<void> {
+  const run = usageQueue.then(async () => {
+    const usage = await loadUsage();
+    usage.counts[action] = (usage.counts[action] || 0) + 1;
+    await chrome.storage.local.set({ [USAGE_KEY]: usage });
+  });
+  usageQueue = run.catch(() => {});
+  return run;
+}
+
+async function handleMessage(msg: BackgroundRequest): Promise<unknown> {
+  switch (msg.type) {
+    case 'getState': {
+      const [settings, sites, dictionary] = await Promise.all([loadSettings(), loadSites(), loadDictionary()]);
+      const res: StateResponse = { settings, site: sites[msg.origin] || {}, dictionary };
+      return res;
+    }
+    case 'updateSettings': {
+      const patch: Partial<Settings> = {};
+      for (const key of Object.keys(msg.patch) as Array<keyof Settings>) {
+        if (key in DEFAULT_SETTINGS) (patch as any)[key] = msg.patch[key];
+      }
+      await chrome.storage.sync.set(patch);
+      return loadSettings();
+    }
+    case 'getSites':
+      return loadSites();
+    case 'updateSite':
+      return updateSite(msg.origin, msg.patch);
+    case 'ignoreField':
+      // Append in the worker so two tabs ignoring fields at once don't overwrite each other's list
+      await editSites((sites) => {
+        const site = sites[msg.origin] || {};
+        const ignored = site.ignoredFields || [];
+        if (!ignored.includes(msg.key)) sites[msg.origin] = { ...site, ignoredFields: [...ignored, msg.key] };
+      });
+      return true;
+    case 'removeSite':
+      await editSites((sites) => { delete sites[msg.origin]; });
+      return true;
+    case 'recordUsage':
+      await recordUsage(msg.action);
+      return true;
+    case 'getUsage':
+      return loadUsage();
+    case 'resetUsage': {
+      const usage: UsageStats = { counts: {}, since: Date.now() };
+      await chrome.storage.local.set({ [USAGE_KEY]: usage });
+      return usage;
+    }
+    case 'getLastRewrite': {
+      // null until something was rewritten; callers fall back to the (site's) Rewriter defaults
+      const res = await chrome.storage.local.get(LAST_REWRITE_KEY);
+      return (res?.[LAST_REWRITE_KEY] as RewriteOptions) ?? null;
+    }
+    case 'setLastRewrite':
+      await chrome.storage.local.set({ [LAST_REWRITE_KEY]: msg.options });
+      return true;
+    case 'getDictionary':
+      return loadDictionary();
+    case 'addToDictionary':
+      return updateDictionary(({ words }) => {
+        const next = normalizeWords([...words, ...msg.words]);
+        return next.length === words.length ? {} : { words: next };
+      });
+    case 'removeFromDictionary':
+      return updateDictionary(({ words }) => ({ words: words.filter((w) => !msg.words.includes(w)) }));
+    case 'addIgnoreRule':
+      return updateDictionary(({ ignoreRules }) => (
+        ignoreRules.some((r) => sameIgnoreRule(r, msg.rule)) ? {} : { ignoreRules: [...ignoreRules, msg.rule] }
+      ));
+    case 'removeIgnoreRule':
+      return updateDictionary(({ ignoreRules }) => ({ ignoreRules: ignoreRules.filter((r) => !sameIgnoreRule(r, msg.rule)) }));
+    default:
+      throw new Error('Unknown message: ' + (msg as any)?.type);
+  }
+}
+
+chrome.runtime.onMessage.addListener((msg: BackgroundRequest, _sender, sendResponse) => {
+  if (!msg || typeof msg.type !== 'string') return false;
+  handleMessage(msg).then(sendResponse, (e) => sendResponse({ error: String(e?.message || e) }));
+  // Keep the channel open for the async response
+  return true;
+});
+
+// Shared model host (settings.modelHost = 'shared') and OpenAI-compatible provider calls: tabs and the
+// offscreen document connect ports
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === MODEL_HOST_PORT) {
+    attachModelHost(port);
+    loadSettings().then(configureModelHost).catch(() => {});
+  } else if (port.name === MODEL_CLIENT_PORT) {
+    attachModelClient(port, loadSettings);
+  }
+});
+
+// Push to every tab (all frames); tabs without our content script just reject
+async function broadcast(message: TabMessage) {
+  const tabs = await chrome.tabs.query({});
+  for (const tab of tabs) {
+    if (tab.id == null) continue;
+    chrome.tabs.sendMessage(tab.id, message).catch(() => {});
+  }
+}
+
+function sendToTab(tabId: number, message: TabMessage, frameId?: number) {
+  const opts = typeof frameId === 'number' ? { frameId } : {};
+  chrome.tabs.sendMessage(tabId, message, opts).catch(() => {});
+}
+
+// Storage is the source of truth; forward changes (from this worker, or from sync on another device)
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== 'sync') return;
+  if (Object.keys(changes).some((key) => key in DEFAULT_SETTINGS)) {
+    loadSettings().then((settings) => {
+      broadcast({ type: 'settingsChanged', settings });
+      if (changes.rewritePresets) buildMenus(settings.rewritePresets);
+      if (changes.memoryPolicy || changes.modelHost) configureModelHost(settings).catch(() => {});
+    }).catch(() => {});
+  }
+  // Chunked values change in two steps (new chunks, then leftovers removed); compare whole values
+  // so the second step doesn't broadcast again
+  if (chunkedKeyChanged(changes, DICTIONARY_KEY) || chunkedKeyChanged(changes, IGNORE_RULES_KEY)) {
+    (async () => {
+      const [prevWords, prevRules, dictionary] = await Promise.all([
+        previousChunked(changes, DICTIONARY_KEY), previousChunked(changes, IGNORE_RULES_KEY), loadDictionary(),
+      ]);
+      const prev: Dictionary = { words: (prevWords as string[]) || [], ignoreRules: (prevRules as Dictionary['ignoreRules']) || [] };
+      if (JSON.stringify(prev) !== JSON.stringify(dictionary)) broadcast({ type: 'dictionaryChanged', dictionary });
+    })().catch(() => {});
+  }
+  if (chunkedKeyChanged(changes, SITES_KEY)) {
+    Promise.all([previousChunked<Record<string, SiteState>>(changes, SITES_KEY), loadSites()]).then(([prevSites, next]) => {
+      const prev = prevSites || {};
+      for (const origin of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+        if (JSON.stringify(prev[origin] || {}) === JSON.stringify(next[origin] || {})) continue;
+        broadcast({ type: 'siteChanged', origin, site: next[origin] || {} }).catch(() => {});
+      }
+    }).catch(() => {});
+  }
+});
+
+// Rebuilt from scratch on install/update and whenever the rewrite presets change; queued so
+// overlapping rebuilds never create the same id twice
+let menuQueue: Promise<unknown> = Promise.resolve();
+function buildMenus(presets: RewritePreset[]) {
+  menuQueue = menuQueue.then(async () => {
+    await chrome.contextMenus.removeAll();
+    const create = (props: chrome.contextMenus.CreateProperties) => {
+      chrome.contextMenus.create({ contexts: ['editable'], ...props }, () => void chrome.runtime.lastError);
+    };
+    // Chrome groups several top-level items under the extension name
+    create({ id: MENU_OPEN_PANEL, title: 'Open Typerra' });
+    let rewriteMenu = false;
+    for (const [id, item] of Object.entries(MENU_ACTIONS)) {
+      if (item.parentId === MENU_REWRITE && !rewriteMenu) {
+        create({ id: MENU_REWRITE, title: 'Rewrite' });
+        rewriteMenu = true;
+      }
+      create({ id, parentId: item.parentId, title: item.title });
+      if (id === 'typerra-rewrite-longer' && presets.length) {
+        create({ id: MENU_PRESET_SEPARATOR, parentId: MENU_REWRITE, type: 'separator' });
+        for (const preset of presets) {
+          create({ id: MENU_PRESET_PREFIX + preset.id, parentId: MENU_REWRITE, title: preset.name.trim() || 'Untitled preset' });
+        }
+      }
+    }
+  }).catch(() => {});
+}
+
+// Context menus persist across worker restarts; only install/update and preset edits rebuild them
+chrome.runtime.onInstalled.addListener(() => {
+  loadSettings().then((settings) => buildMenus(settings.rewritePresets)).catch(() => {});
+});
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (tab?.id == null) return;
+  if (info.menuItemId === MENU_OPEN_PANEL) {
+    sendToTab(tab.id, { type: 'command', command: 'open-panel' }, info.frameId);
+    return;
+  }
+  const menuId = String(info.menuItemId);
+  if (menuId.startsWith(MENU_PRESET_PREFIX)) {
+    const tabId = tab.id;
+    loadSettings().then((settings) => {
+      const preset = settings.rewritePresets.find((p) => MENU_PRESET_PREFIX + p.id === menuId);
+      if (!preset) return;
+      const { tone, length, context } = preset;
+      sendToTab(tabId, { type: 'contextAction', action: { kind: 'rewrite', tone, length, context } }, info.frameId);
+    }).catch(() => {});
+    return;
+  }
+  const item = MENU_ACTIONS[menuId];
+  if (item) sendToTab(tab.id, { type: 'contextAction', action: item.action }, info.frameId);
+});
+
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  const target = tab ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+  if (target?.id == null) return;
+  sendToTab(target.id, { type: 'command', command: command as TyperraCommand });
+});
@@ -0,0 +1,184 @@
+// Shared model host: one offscreen document running shared/models.ts for every tab, so each model is
+// created once per browser instead of once per tab. Content scripts connect a MODEL_CLIENT_PORT; the
+// worker starts the document on demand and relays their calls to it. Every tab numbers its calls
+// from 1, so ids are remapped on the way through. Status events go to all connected tabs.
+// Calls for the OpenAI-compatible provider (params.provider = 'openai') come over the same port but
+// run here in the worker, whichever model host is selected.
+
+import {
+  MODEL_HOST_UNAVAILABLE,
+  type ModelHostWake, type ModelRequest, type ModelResponse,
+} from '../shared/messages';
+import { handleModelCall } from '../shared/models';
+import { openAiProvider } from '../shared/openaiProvider';
+import { MEMORY_POLICIES, type Settings } from '../shared/settings';
+
+const OFFSCREEN_URL = 'src/offscreen/index.html';
+// The document connects back as soon as it loads; tabs fall back to the page after this
+const HOST_CONNECT_TIMEOUT_MS = 10_000;
+// Tabs share the models, so they may not free or reconfigure them; the host's idle timer does that
+const HOST_ONLY_METHODS = new Set(['configure', 'dispose', 'disposeNonProofreader', 'ping']);
+
+let hostPort: chrome.runtime.Port | null = null;
+let hostStarting: Promise<chrome.runtime.Port> | null = null;
+let onHostConnected: ((port: chrome.runtime.Port) => void) | null = null;
+// Idle limit from the memory policy, sent whenever the host (re)connects
+let hostConfig: { modelIdleMs: number } | null = null;
+
+const clients = new Set<chrome.runtime.Port>();
+// Host-side call id -> the tab's port and the tab's own id for it
+const routes = new Map<number, { client: chrome.runtime.Port; id: number }>();
+let nextHostId = 1;
+
+function safePost(port: chrome.runtime.Port | null, msg: ModelResponse | ModelRequest) {
+  try { port?.postMessage(msg); } catch {}
+}
+
+async function hostDocumentExists(): Promise<boolean> {
+  const contexts = await chrome.runtime.getContexts({ contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT] });
+  return contexts.length > 0;
+}
+
+function startHost(): Promise<chrome.runtime.Port> {
+  if (hostPort) return Promise.resolve(hostPort);
+  if (hostStarting) return hostStarting;
+  hostStarting = new Promise<chrome.runtime.Port>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onHostConnected = null;
+      reject(new Error(`${MODEL_HOST_UNAVAILABLE}: no response from the offscreen document`));
+    }, HOST_CONNECT_TIMEOUT_MS);
+    onHostConnected = (port) => { clearTimeout(timer); resolve(port); };
+    (async () => {
+      if (await hostDocumentExists()) {
+        // The document outlived the previous worker and its port
+        const wake: ModelHostWake = { type: 'connectModelHost' };
+        await chrome.runtime.sendMessage(wake).catch(() => {});
+      } else {
+        await chrome.offscreen.createDocument({
+          url: OFFSCREEN_URL,
+          reasons: [chrome.offscreen.Reason.WORKERS],
+          justification: 'Runs the built-in AI models once for all tabs instead of in every page',
+        });
+      }
+    })().catch((e) => {
+      clearTimeout(timer);
+      onHostConnected = null;
+      reject(new Error(`${MODEL_HOST_UNAVAILABLE}: ${e?.message || e}`));
+    });
+  }).finally(() => { hostStarting = null; });
+  return hostStarting;
+}
+
+export function attachModelHost(port: chrome.runtime.Port) {
+  hostPort = port;
+  if (hostConfig) safePost(port, { id: 0, method: 'configure', params: hostConfig });
+  port.onMessage.addListener((msg: ModelResponse) => {
+    if ('event' in msg) {
+      for (const client of clients) safePost(client, msg);
+      return;
+    }
+    const route = routes.get(msg.id);
+    if (!route) return;
+    if (typeof msg.partial !== 'string') routes.delete(msg.id);
+    safePost(route.client, { ...msg, id: route.id });
+  });
+  port.onDisconnect.addListener(() => {
+    if (hostPort === port) hostPort = null;
+    for (const route of routes.values()) {
+      safePost(route.client, { id: route.id, error: `${MODEL_HOST_UNAVAILABLE}: disconnected` });
+    }
+    routes.clear();
+  });
+  onHostConnected?.(port);
+  onHostConnected = null;
+}
+
+function hostIdFor(client: chrome.runtime.Port, id: number): number | null {
+  for (const [hostId, route] of routes) {
+    if (route.client === client && route.id === id) return hostId;
+  }
+  return null;
+}
+
+// OpenAI-compatible calls running in the worker, per tab port and the tab's call id
+const serverCalls = new Map<chrome.runtime.Port, Map<number, AbortController>>();
+
+async function runServerCall(client: chrome.runtime.Port, msg: ModelRequest, loadSettings: () => Promise<Settings>) {
+  const { id } = msg;
+  const controller = new AbortController();
+  let calls = serverCalls.get(client);
+  if (!calls) serverCalls.set(client, calls = new Map());
+  if (id) calls.set(id, controller);
+  try {
+    const settings = await loadSettings();
+    const result = await handleModelCall(
+      msg.method,
+      msg.params,
+      { signal: controller.signal, onPartial: (partial) => safePost(client, { id, partial }) },
+      openAiProvider(settings.openAiServer),
+    );
+    if (id) safePost(client, { id, result });
+  } catch (e: any) {
+    const aborted = controller.signal.aborted || (e?.name || '') === 'AbortError';
+    if (id) safePost(client, { id, error: aborted ? 'Request cancelled' : (e?.message || String(e)) });
+  } finally {
+    if (id) calls.delete(id);
+  }
+}
+
+async function relay(client: chrome.runtime.Port, msg: ModelRequest, loadSettings: () => Promise<Settings>) {
+  if (msg.method === 'cancel') {
+    const callId = Number(msg.params?.id);
+    serverCalls.get(client)?.get(callId)?.abort();
+    const hostId = hostIdFor(client, callId);
+    if (hostId != null) safePost(hostPort, { id: 0, method: 'cancel', params: { id: hostId } });
+    return;
+  }
+  if (msg.params?.provider === 'openai') {
+    await runServerCall(client, msg, loadSettings);
+    return;
+  }
+  if (HOST_ONLY_METHODS.has(msg.method)) {
+    if (msg.id) safePost(client, { id: msg.id, result: { ok: true } });
+    return;
+  }
+  let host: chrome.runtime.Port;
+  try {
+    host = await startHost();
+  } catch (e: any) {
+    if (msg.id) safePost(client, { id: msg.id, error: String(e?.message || e) });
+    return;
+  }
+  // The tab may have gone away while the document was starting
+  if (!clients.has(client)) return;
+  const hostId = msg.id ? nextHostId++ : 0;
+  if (hostId) routes.set(hostId, { client, id: msg.id });
+  safePost(host, { id: hostId, method: msg.method, params: msg.params });
+}
+
+export function attachModelClient(port: chrome.runtime.Port, loadSettings: () => Promise<Settings>) {
+  clients.add(port);
+  port.onMessage.addListener((msg: ModelRequest) => { relay(port, msg, loadSettings).catch(() => {}); });
+  port.onDisconnect.addListener(() => {
+    clients.delete(port);
+    for (const controller of serverCalls.get(port)?.values() ?? []) controller.abort();
+    serverCalls.delete(port);
+    // Tab closed or navigated away: stop whatever it was still waiting for
+    for (const [hostId, route] of routes) {
+      if (route.client !== port) continue;
+      routes.delete(hostId);
+      safePost(hostPort, { id: 0, method: 'cancel', params: { id: hostId } });
+    }
+  });
+}
+
+// Memory policy changes reach the running host; switching back to per-page models closes it
+export async function configureModelHost(settings: Settings) {
+  const limits = MEMORY_POLICIES[settings.memoryPolicy] ?? MEMORY_POLICIES.balanced;
+  hostConfig = { modelIdleMs: limits.modelIdleMs };
+  if (settings.modelHost === 'shared') {
+    safePost(hostPort, { id: 0, method: 'configure', params: hostConfig });
+    return;
+  }
+  if (await hostDocumentExists()) await chrome.offscreen.closeDocument();
+}
@@ -0,0 +1,244 @@
+// Editor adapters: one text/selection/geometry/edit interface over plain inputs, contentEditable and
+// the common rich-text frameworks. Content scripts live in an isolated world and cannot reach the
+// editors' JS objects, so framework adapters work through the DOM plus the browser's editing
+// commands (insertText fires beforeinput/textInput, which these editors already handle).
+
+import { createGoogleDocsAdapter, isDocsEditor } from './docs';
+import { recordEdit, restoreSnapshot, takeSnapshot } from './history';
+import { domRangeForOffsets, mapTextOffsets, offsetForDomPoint } from './textMap';
+
+export type TextEdit = { start: number; end: number; replacement: string };
+
+export interface EditorAdapter {
+  // 'input', 'contenteditable' or the detected framework
+  readonly kind: string;
+  // Focused editable element
+  readonly element: HTMLElement;
+  // Visible editor surface used for placement and underlines
+  readonly root: HTMLElement;
+  readonly canEdit: boolean;
+  getText(): string;
+  // Offsets into getText(); null when the selection is outside the editor
+  getSelection(): { start: number; end: number } | null;
+  setSelection(start: number, end: number): boolean;
+  // Client rects for a text range; null means the caller must measure with a mirror (inputs)
+  getRectsForRange(start: number, end: number): DOMRect[] | null;
+  // Apply edits (offsets into `base`) as one operation; refuses without touching the field when the
+  // text no longer equals base
+  applyEdits(base: string, edits: TextEdit[], opts?: { emitInput?: boolean }): Promise<boolean>;
+}
+
+// Apply replacement ranges to base text; overlapping ranges after the first are skipped
+export function applyRanges(base: string, ranges: Array<{ start: number; end: number; replacement?: string }>): string {
+  const sorted = [...ranges].filter((r) => typeof r.replacement === 'string').sort((a, b) => a.start - b.start);
+  let out = '';
+  let idx = 0;
+  for (const r of sorted) {
+    const s = Math.max(0, Math.min(base.length, r.start));
+    const e = Math.max(s, Math.min(base.length, r.end));
+    if (s < idx) continue;
+    out += base.slice(idx, s) + r.replacement;
+    idx = e;
+  }
+  return out + base.slice(idx);
+}
+
+// True while Typerra applies an edit that should not trigger a realtime re-proofread
+let silentEdit = false;
+export function isSilentEdit(): boolean {
+  return silentEdit;
+}
+
+// Route text insertion through the browser's editing pipeline so native undo (Ctrl+Z) keeps
+// working. Returns false when the command is unsupported or the page cancels it.
+function insertTextNative(text: string, emitInput: boolean): boolean {
+  const prevSilent = silentEdit;
+  silentEdit = silentEdit || !emitInput;
+  try {
+    return text ? document.execCommand('insertText', false, text) : document.execCommand('delete', false);
+  } catch {
+    return false;
+  } finally {
+    silentEdit = prevSilent;
+  }
+}
+
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+function createInputAdapter(el: HTMLInputElement | HTMLTextAreaElement): EditorAdapter {
+  return {
+    kind: 'input',
+    element: el,
+    root: el,
+    canEdit: true,
+    getText: () => el.value,
+    getSelection: () => {
+      const start = el.selectionStart;
+      const end = el.selectionEnd;
+      return (typeof start === 'number' && typeof end === 'number') ? { start, end } : null;
+    },
+    setSelection: (start, end) => {
+      try { el.setSelectionRange(start, end); return true; } catch { return false; }
+    },
+    getRectsForRange: () => null,
+    applyEdits: async (base, edits, opts = {}) => {
+      const emitInput = opts.emitInput ?? true;
+      if (el.value !== base) return false;
+      if (!edits.length) return true;
+      const next = applyRanges(base, edits);
+      // One replacement spanning all edits keeps this a single native undo step
+      let s = 0;
+      while (s < base.length && s < next.length && base[s] === next[s]) s++;
+      let tail = 0;
+      while (tail < base.length - s && tail < next.length - s && base[base.length - 1 - tail] === next[next.length - 1 - tail]) tail++;
+      const e = base.length - tail;
+      const replacement = next.slice(s, next.length - tail);
+      const before = takeSnapshot(el);
+      if (document.activeElement !== el) el.focus();
+      // Some input types (email, ...) have no selection API; write the value directly there
+      let selectable = true;
+      try { el.setSelectionRange(s, e); } catch { selectable = false; }
+      const native = selectable && insertTextNative(replacement, emitInput) && el.value === next;
+      if (!native && el.value === base) {
+        el.value = next;
+        const caret = s + replacement.length;
+        try { el.setSelectionRange(caret, caret); } catch {}
+        if (emitInput) el.dispatchEvent(new Event('input', { bubbles: true }));
+      }
+      recordEdit(el, before);
+      return el.value === next;
+    },
+  };
+}
+
+type RichOptions = {
+  kind: string;
+  // Wait a task after moving the selection so editors that sync it on selectionchange catch up
+  settle?: boolean;
+  // Direct DOM writes are safe when the editor reconciles from DOM mutations
+  domFallback?: boolean;
+  // Restoring innerHTML is only safe for editors that do not keep their own document model
+  ownHistory?: boolean;
+  canEdit?: boolean;
+};
+
+function createRichAdapter(element: HTMLElement, root: HTMLElement, o: RichOptions): EditorAdapter {
+  const getText = () => root.innerText || '';
+  const select = (start: number, end: number): boolean => {
+    const sel = window.getSelection();
+    const range = domRangeForOffsets(root, start, end);
+    if (!sel || !range) return false;
+    sel.removeAllRanges();
+    sel.addRange(range);
+    return true;
+  };
+  return {
+    kind: o.kind,
+    element,
+    root,
+    canEdit: o.canEdit ?? true,
+    getText,
+    getSelection: () => {
+      const sel = window.getSelection();
+      if (!sel || sel.rangeCount === 0) return null;
+      const r = sel.getRangeAt(0);
+      if (!root.contains(r.startContainer) || !root.contains(r.endContainer)) return null;
+      const map = mapTextOffsets(root);
+      const start = offsetForDomPoint(root, r.startContainer, r.startOffset, map);
+      const end = r.collapsed ? start : offsetForDomPoint(root, r.endContainer, r.endOffset, map);
+      if (start == null || end == null) return null;
+      return { start: Math.min(start, end), end: Math.max(start, end) };
+    },
+    setSelection: select,
+    getRectsForRange: (start, end) => {
+      const range = domRangeForOffsets(root, start, end);
+      if (!range) return [];
+      return Array.from(range.getClientRects()).filter((r) => r.width > 0 || r.height > 0);
+    },
+    applyEdits: async (base, edits, opts = {}) => {
+      const emitInput = opts.emitInput ?? true;
+      if (!(o.canEdit ?? true)) return false;
+      if (getText() !== base) return false;
+      const before = takeSnapshot(root);
+      // Right-to-left so earlier offsets stay valid; overlapping edits are dropped like in applyRanges
+      const sorted = [...edits].sort((a, b) => b.start - a.start);
+      let floor = Infinity;
+      if (!root.contains(document.activeElement)) element.focus();
+      let ok = true;
+      let nativeSteps = 0;
+      for (const r of sorted) {
+        if (r.end > floor) continue;
+        floor = r.start;
+        if (!select(r.start, r.end)) { ok = false; break; }
+        if (o.settle) await nextTask();
+        if (insertTextNative(r.replacement, emitInput)) { nativeSteps++; continue; }
+        if (!o.domFallback) { ok = false; break; }
+        const sel = window.getSelection();
+        const range = sel && sel.rangeCount ? sel.getRangeAt(0) : null;
+        if (!range) { ok = false; break; }
+        range.deleteContents();
+        if (r.replacement) range.insertNode(document.createTextNode(r.replacement));
+        range.collapse(false);
+        // Fire input event for frameworks/listeners
+        try { if (emitInput) root.dispatchEvent(new Event('input', { bubbles: true })); } catch {}
+      }
+      // A misplaced edit (offsets mapped onto the wrong DOM text) must not be left in the field
+      if (!ok || getText() !== applyRanges(base, edits)) {
+        if (o.ownHistory) restoreSnapshot(root, before);
+        else for (let i = 0; i < nativeSteps; i++) document.execCommand('undo', false);
+        return false;
+      }
+      if (o.ownHistory) recordEdit(root, before);
+      return true;
+    },
+  };
+}
+
+// CodeMirror 5 edits through a hidden textarea and only renders the visible lines; we can read and
+// underline what is on screen but cannot apply edits safely from outside the page.
+function createCodeMirror5Adapter(element: HTMLElement, root: HTMLElement): EditorAdapter {
+  const lines = () => Array.from(root.querySelectorAll<HTMLElement>('.CodeMirror-code pre.CodeMirror-line'));
+  return {
+    kind: 'codemirror5',
+    element,
+    root,
+    canEdit: false,
+    getText: () => lines().map((l) => l.textContent || '').join('\n'),
+    getSelection: () => null,
+    setSelection: () => false,
+    getRectsForRange: () => [],
+    applyEdits: async () => false,
+  };
+}
+
+// Detection order matters: more specific markers first
+const RICH_EDITORS: Array<{ selector: string } & RichOptions> = [
+  { kind: 'lexical', selector: '[data-lexical-editor="true"]', settle: true },
+  { kind: 'slate', selector: '[data-slate-editor="true"]', settle: true },
+  { kind: 'draft', selector: '.public-DraftEditor-content', settle: true },
+  { kind: 'prosemirror', selector: '.ProseMirror', domFallback: true },
+  { kind: 'quill', selector: '.ql-editor', settle: true, domFallback: true },
+  { kind: 'codemirror', selector: '.cm-content', domFallback: true },
+];
+
+const adapters = new WeakMap<HTMLElement, EditorAdapter>();
+
+export function getEditorAdapter(el: HTMLElement): EditorAdapter {
+  const cached = adapters.get(el);
+  if (cached) return cached;
+  let adapter: EditorAdapter;
+  const cm5 = el.closest('.CodeMirror') as HTMLElement | null;
+  if (isDocsEditor(el)) {
+    adapter = createGoogleDocsAdapter(el);
+  } else if (cm5) {
+    adapter = createCodeMirror5Adapter(el, cm5);
+  } else if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+    adapter = createInputAdapter(el);
+  } else {
+    const match = RICH_EDITORS.find((r) => el.closest(r.selector));
+    const root = match ? (el.closest(match.selector) as HTMLElement) : el;
+    adapter = createRichAdapter(el, root, match ?? { kind: 'contenteditable', domFallback: true, ownHistory: true });
+  }
+  adapters.set(el, adapter);
+  return adapter;
+}
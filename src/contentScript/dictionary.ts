@@ -0,0 +1,57 @@
+// Personal dictionary and ignore rules (see Dictionary in shared/settings.ts), applied to the realtime
+// underlines, model and local alike, just before they are drawn. "Ignore once" is per field and not
+// stored: its ranges are carried along with edits like the model's (localCheck.ts carryRanges).
+
+import type { ProofreadRange } from '../shared/models';
+import { sameIgnoreRule, type Dictionary, type IgnoreRule } from '../shared/settings';
+
+const WORD_CHAR = /[\p{L}\p{N}'’-]/u;
+
+// The whole word a range sits in ("k" of "kubernetes" for a capitalization fix), or null when the
+// range isn't within a single word
+function wordAround(text: string, r: ProofreadRange): string | null {
+  if (!/[\p{L}\p{N}]/u.test(text.slice(r.start, r.end))) return null;
+  let start = r.start;
+  while (start > 0 && WORD_CHAR.test(text[start - 1])) start--;
+  let end = r.end;
+  while (end < text.length && WORD_CHAR.test(text[end])) end++;
+  const word = text.slice(start, end).replace(/^['’-]+|['’-]+$/gu, '');
+  return word && !/[^\p{L}\p{N}'’-]/u.test(word) ? word : null;
+}
+
+function dictionaryMatcher(words: string[]): (word: string) => boolean {
+  const exact = new Set(words);
+  const anyCase = new Set(words.filter((w) => w === w.toLowerCase()));
+  return (word) => exact.has(word) || anyCase.has(word.toLowerCase());
+}
+
+// Word to offer "Add to dictionary" for; possessives go in without the "'s"
+export function dictionaryWordFor(text: string, r: ProofreadRange): string | null {
+  return wordAround(text, r)?.replace(/['’]s$/u, '') || null;
+}
+
+export function ignoreRuleFor(text: string, r: ProofreadRange): IgnoreRule {
+  const rule: IgnoreRule = { text: text.slice(r.start, r.end) };
+  if (typeof r.replacement === 'string') rule.replacement = r.replacement;
+  return rule;
+}
+
+export function isSameRange(a: ProofreadRange, b: ProofreadRange): boolean {
+  return a.start === b.start && a.end === b.end && a.replacement === b.replacement;
+}
+
+// ranges minus the ones ignored once (same position and fix), by an "Ignore always" rule, or on a
+// word in the dictionary
+export function filterIgnored(text: string, ranges: ProofreadRange[], dictionary: Dictionary, once: ProofreadRange[]): ProofreadRange[] {
+  if (!dictionary.words.length && !dictionary.ignoreRules.length && !once.length) return ranges;
+  const inDictionary = dictionaryMatcher(dictionary.words);
+  return ranges.filter((r) => {
+    if (once.some((o) => isSameRange(o, r))) return false;
+    const rule = ignoreRuleFor(text, r);
+    if (dictionary.ignoreRules.some((ignored) => sameIgnoreRule(ignored, rule))) return false;
+    // Entries with spaces ("New York") only match a range covering exactly that text
+    if (inDictionary(rule.text)) return false;
+    const word = dictionaryWordFor(text, r);
+    return !word || !inDictionary(word);
+  });
+}
@@ -0,0 +1,116 @@
+import React from 'react';
+
+// Word-level diff used by the Popover to show what a proofread/rewrite/write result changes
+
+export type DiffOp = { kind: 'equal' | 'insert' | 'delete'; text: string };
+
+// Above this many token pairs the LCS table gets too big for a content script; fall back to replace-all
+const MAX_DIFF_CELLS = 2_000_000;
+
+// Words, runs of whitespace and single punctuation marks each become one token
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_'’]+|[^\s\p{L}\p{N}_]/gu) || [];
+}
+
+function pushOp(ops: DiffOp[], kind: DiffOp['kind'], text: string) {
+  if (!text) return;
+  const last = ops[ops.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else ops.push({ kind, text });
+}
+
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const ops: DiffOp[] = [];
+
+  // Trim common prefix/suffix so the LCS only covers the changed middle
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+  const am = a.slice(pre, a.length - suf);
+  const bm = b.slice(pre, b.length - suf);
+
+  pushOp(ops, 'equal', a.slice(0, pre).join(''));
+  const n = am.length;
+  const m = bm.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    pushOp(ops, 'delete', am.join(''));
+    pushOp(ops, 'insert', bm.join(''));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of am[i..] and bm[j..]
+    const w = m + 1;
+    const lcs = new Uint32Array((n + 1) * w);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * w + j] = am[i] === bm[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (am[i] === bm[j]) { pushOp(ops, 'equal', am[i]); i++; j++; }
+      else if (lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]) { pushOp(ops, 'delete', am[i]); i++; }
+      else { pushOp(ops, 'insert', bm[j]); j++; }
+    }
+    while (i < n) pushOp(ops, 'delete', am[i++]);
+    while (j < m) pushOp(ops, 'insert', bm[j++]);
+  }
+  pushOp(ops, 'equal', a.slice(a.length - suf).join(''));
+  return ops;
+}
+
+// Collapse a diff into replacement edits on `before` (offsets into before, like proofread ranges)
+export function diffToEdits(before: string, after: string): Array<{ start: number; end: number; replacement: string }> {
+  const edits: Array<{ start: number; end: number; replacement: string }> = [];
+  let pos = 0;
+  let open: { start: number; end: number; replacement: string } | null = null;
+  for (const op of diffWords(before, after)) {
+    if (op.kind === 'equal') {
+      if (open) { edits.push(open); open = null; }
+      pos += op.text.length;
+      continue;
+    }
+    if (!open) open = { start: pos, end: pos, replacement: '' };
+    if (op.kind === 'delete') { pos += op.text.length; open.end = pos; }
+    else open.replacement += op.text;
+  }
+  if (open) edits.push(open);
+  return edits;
+}
+
+export type DiffMode = 'inline' | 'split';
+
+export function DiffView({ before, after, mode, fontSize }: { before: string; after: string; mode: DiffMode; fontSize: number }) {
+  const ops = React.useMemo(() => diffWords(before, after), [before, after]);
+  const box: React.CSSProperties = { ...diffBoxStyle, fontSize };
+  if (mode === 'split') {
+    return (
+      <div style={{ display: 'flex', gap: 6 }}>
+        <div style={{ ...box, flex: 1, minWidth: 0 }}>
+          {ops.map((op, i) => op.kind === 'insert' ? null : <span key={i} style={op.kind === 'delete' ? delStyle : undefined}>{op.text}</span>)}
+        </div>
+        <div style={{ ...box, flex: 1, minWidth: 0 }}>
+          {ops.map((op, i) => op.kind === 'delete' ? null : <span key={i} style={op.kind === 'insert' ? insStyle : undefined}>{op.text}</span>)}
+        </div>
+      </div>
+    );
+  }
+  return (
+    <div style={box}>
+      {ops.map((op, i) => (
+        op.kind === 'equal' ? <span key={i}>{op.text}</span>
+          : op.kind === 'delete' ? <del key={i} style={delStyle}>{op.text}</del>
+          : <ins key={i} style={insStyle}>{op.text}</ins>
+      ))}
+    </div>
+  );
+}
+
+const diffBoxStyle: React.CSSProperties = {
+  border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, boxSizing: 'border-box',
+  whiteSpace: 'pre-wrap', wordBreak: 'break-word', lineHeight: 1.4, maxHeight: 220, overflow: 'auto'
+};
+const delStyle: React.CSSProperties = { background: '#fee2e2', color: '#b91c1c', textDecoration: 'line-through' };
+const insStyle: React.CSSProperties = { background: '#dcfce7', color: '#15803d', textDecoration: 'none' };
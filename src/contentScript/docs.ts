@@ -0,0 +1,209 @@
+// Google Docs adapter. Docs paints text onto a canvas and takes keyboard input through a hidden
+// iframe, so there is no editable DOM to read or write. We read text from the accessibility layer
+// Docs renders next to the canvas (annotated-canvas SVG rects, or the older HTML line views) and
+// apply edits by moving Docs' own caret with synthetic clicks and typing into its input iframe.
+
+import type { EditorAdapter, TextEdit } from './adapters';
+
+export const DOCS_EDITOR_SELECTOR = '.kix-appview-editor';
+
+export function isDocsEditor(el: Element | null): boolean {
+  return !!el && el.matches(DOCS_EDITOR_SELECTOR);
+}
+
+// One run of text as rendered by Docs, with its on-screen box
+type Segment = { text: string; el: Element; font: string | null; start: number };
+
+const ZERO_WIDTH = /[\u200b\u200c\u200d\ufeff]/g;
+
+function collectSegments(root: HTMLElement): { text: string; segments: Segment[] } {
+  const segments: Segment[] = [];
+  let text = '';
+  const push = (raw: string, el: Element, font: string | null) => {
+    const t = raw.replace(ZERO_WIDTH, '');
+    segments.push({ text: t, el, font, start: text.length });
+    text += t;
+  };
+
+  // Annotated canvas: <g role="paragraph"> groups of <rect aria-label="line text">
+  const paragraphs = Array.from(root.querySelectorAll('.kix-canvas-tile-content svg g[role="paragraph"]'));
+  if (paragraphs.length) {
+    paragraphs.forEach((p, i) => {
+      if (i > 0) text += '\n';
+      for (const rect of Array.from(p.querySelectorAll('rect[aria-label]'))) {
+        push(rect.getAttribute('aria-label') || '', rect, rect.getAttribute('data-font-css'));
+      }
+    });
+    return { text, segments };
+  }
+
+  // HTML rendering: .kix-paragraphrenderer > ... > .kix-lineview
+  const htmlParagraphs = Array.from(root.querySelectorAll('.kix-paragraphrenderer'));
+  htmlParagraphs.forEach((p, i) => {
+    if (i > 0) text += '\n';
+    for (const line of Array.from(p.querySelectorAll('.kix-lineview'))) {
+      const block = line.querySelector('.kix-lineview-text-block') || line;
+      push(block.textContent || '', block, getComputedStyle(block).font || null);
+    }
+  });
+  return { text, segments };
+}
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+function measure(text: string, font: string | null): number | null {
+  if (!font) return null;
+  try {
+    measureCtx = measureCtx || document.createElement('canvas').getContext('2d');
+    if (!measureCtx) return null;
+    measureCtx.font = font;
+    return measureCtx.measureText(text).width;
+  } catch {
+    return null;
+  }
+}
+
+// Horizontal position of the boundary before seg.text[i]
+function xAt(seg: Segment, i: number): { x: number; box: DOMRect } {
+  const box = seg.el.getBoundingClientRect();
+  const full = measure(seg.text, seg.font);
+  const part = measure(seg.text.slice(0, i), seg.font);
+  const ratio = (full && part != null) ? part / full : (seg.text.length ? i / seg.text.length : 0);
+  return { x: box.left + box.width * Math.max(0, Math.min(1, ratio)), box };
+}
+
+function segmentAt(segments: Segment[], offset: number, preferEnd: boolean): Segment | null {
+  for (const seg of segments) {
+    const end = seg.start + seg.text.length;
+    if (offset >= seg.start && (offset < end || (preferEnd && offset === end))) return seg;
+  }
+  return segments.length ? segments[segments.length - 1] : null;
+}
+
+function inputTarget(): { doc: Document; el: HTMLElement } | null {
+  const frame = document.querySelector('iframe.docs-texteventtarget-iframe') as HTMLIFrameElement | null;
+  const doc = frame?.contentDocument;
+  const el = doc?.querySelector('[contenteditable="true"]') as HTMLElement | null;
+  return doc && el ? { doc, el } : null;
+}
+
+function click(x: number, y: number, shiftKey: boolean) {
+  const el = document.elementFromPoint(x, y);
+  if (!el) return;
+  const init: MouseEventInit = { bubbles: true, cancelable: true, clientX: x, clientY: y, button: 0, shiftKey, view: window };
+  el.dispatchEvent(new MouseEvent('mousedown', init));
+  el.dispatchEvent(new MouseEvent('mouseup', init));
+  el.dispatchEvent(new MouseEvent('click', init));
+}
+
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+export function createGoogleDocsAdapter(root: HTMLElement): EditorAdapter {
+  const read = () => collectSegments(root);
+
+  const getRectsForRange = (start: number, end: number): DOMRect[] => {
+    const rects: DOMRect[] = [];
+    for (const seg of read().segments) {
+      const s = Math.max(start, seg.start);
+      const e = Math.min(end, seg.start + seg.text.length);
+      if (s >= e) continue;
+      const a = xAt(seg, s - seg.start);
+      const b = xAt(seg, e - seg.start);
+      rects.push(new DOMRect(a.x, a.box.top, Math.max(1, b.x - a.x), a.box.height));
+    }
+    return rects;
+  };
+
+  // Click at the start boundary, shift-click at the end one; Docs turns that into its selection
+  const select = (start: number, end: number): boolean => {
+    const { segments } = read();
+    const s = segmentAt(segments, start, false);
+    const e = segmentAt(segments, end, true);
+    if (!s || !e) return false;
+    const a = xAt(s, Math.min(s.text.length, Math.max(0, start - s.start)));
+    const b = xAt(e, Math.min(e.text.length, Math.max(0, end - e.start)));
+    click(a.x, a.box.top + a.box.height / 2, false);
+    if (end !== start) click(b.x, b.box.top + b.box.height / 2, true);
+    return true;
+  };
+
+  // Docs draws its caret as a positioned element; map it back onto the nearest text boundary
+  const caretOffset = (): number | null => {
+    const caret = document.querySelector('.kix-cursor-caret');
+    if (!caret) return null;
+    const c = caret.getBoundingClientRect();
+    const cy = c.top + c.height / 2;
+    for (const seg of read().segments) {
+      const box = seg.el.getBoundingClientRect();
+      if (cy < box.top || cy > box.bottom || c.left < box.left - 2 || c.left > box.right + 2) continue;
+      let best = 0;
+      let bestDist = Infinity;
+      for (let i = 0; i <= seg.text.length; i++) {
+        const d = Math.abs(xAt(seg, i).x - c.left);
+        if (d < bestDist) { bestDist = d; best = i; }
+      }
+      return seg.start + best;
+    }
+    return null;
+  };
+
+  return {
+    kind: 'google-docs',
+    element: root,
+    root,
+    canEdit: true,
+    getText: () => read().text,
+    getSelection: () => {
+      const at = caretOffset();
+      return at == null ? null : { start: at, end: at };
+    },
+    setSelection: select,
+    getRectsForRange,
+    applyEdits: async (base: string, edits: TextEdit[]) => {
+      if (read().text !== base) return false;
+      const input = inputTarget();
+      if (!input) return false;
+      // Right-to-left so earlier offsets stay valid
+      const sorted = [...edits].sort((a, b) => b.start - a.start);
+      let floor = Infinity;
+      let expected = base;
+      for (const r of sorted) {
+        if (r.end > floor) continue;
+        floor = r.start;
+        if (!select(r.start, r.end)) return false;
+        await nextFrame();
+        // The clicks are placed by measured glyph widths; never type unless the caret (at the focus end
+        // of a selection) landed where we aimed
+        if (caretOffset() !== r.end) return false;
+        input.el.focus();
+        const ok = r.replacement
+          ? input.doc.execCommand('insertText', false, r.replacement)
+          : input.doc.execCommand('delete', false);
+        if (!ok) return false;
+        await nextFrame();
+        expected = expected.slice(0, r.start) + r.replacement + expected.slice(r.end);
+        if (read().text !== expected) return false;
+      }
+      return true;
+    },
+  };
+}
+
+// Docs does not fire input events on the editor surface; re-emit one when the rendered text changes
+// so realtime proofreading can follow along like on any other field.
+export function observeDocsChanges(root: HTMLElement): () => void {
+  let last = collectSegments(root).text;
+  let frame = 0;
+  // Docs re-renders tiles constantly; compare text at most once per frame
+  const mo = new MutationObserver(() => {
+    if (frame) return;
+    frame = requestAnimationFrame(() => {
+      frame = 0;
+      const next = collectSegments(root).text;
+      if (next === last) return;
+      last = next;
+      try { root.dispatchEvent(new Event('input', { bubbles: true })); } catch {}
+    });
+  });
+  mo.observe(root, { subtree: true, childList: true, characterData: true, attributes: true, attributeFilter: ['aria-label'] });
+  return () => { mo.disconnect(); if (frame) cancelAnimationFrame(frame); };
+}
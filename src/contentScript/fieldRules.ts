@@ -0,0 +1,65 @@
+// Which editable fields Typerra stays away from: explicit opt-outs, fields the user chose to ignore,
+// and heuristics for credentials, payment data and code. Only the bubble and realtime proofreading
+// are affected; context menu actions on a field are an explicit request and still run.
+
+// Markup opt-out/opt-in: data-typerra="off" (or Grammarly's data-gramm="false") on the field or
+// any ancestor; data-typerra="on" overrides the heuristics below
+const OPT_OUT = '[data-typerra="off"], [data-gramm="false"]';
+const OPT_IN = '[data-typerra="on"]';
+
+// Code editors; their text is not prose
+const CODE_EDITORS = '.cm-editor, .CodeMirror, .monaco-editor, .ace_editor';
+
+// autocomplete tokens for credentials, payment and other data that must not be sent to a model
+const SENSITIVE_AUTOCOMPLETE = /^(cc-|username$|current-password$|new-password$|one-time-code$|webauthn$)/;
+
+function autocompleteTokens(el: HTMLElement): string[] {
+  return (el.getAttribute('autocomplete') || '').toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Login-style forms: a text field sharing its form (or close container) with a password field
+function isPasswordAdjacent(el: HTMLElement): boolean {
+  if (!(el instanceof HTMLInputElement)) return false;
+  const scope = el.form || el.closest('form, fieldset, [role="form"], [role="dialog"]');
+  return !!scope?.querySelector('input[type="password"]');
+}
+
+// Stable description of a field for "never on this field": page path plus whatever identifies the
+// element (id, name, label or placeholder), falling back to its tag and first classes
+export function fieldKey(el: HTMLElement): string {
+  const parts = [location.pathname, el.tagName.toLowerCase()];
+  const id = el.id && !/\d{4,}/.test(el.id) ? el.id : ''; // skip generated ids
+  const name = el.getAttribute('name');
+  const label = el.getAttribute('aria-label');
+  const placeholder = el.getAttribute('placeholder');
+  if (id) parts.push(`#${id}`);
+  if (name) parts.push(`[name="${name}"]`);
+  if (label) parts.push(`[aria-label="${label}"]`);
+  if (placeholder) parts.push(`[placeholder="${placeholder}"]`);
+  if (!id && !name && !label && !placeholder) {
+    const classes = Array.from(el.classList).slice(0, 2);
+    if (classes.length) parts.push('.' + classes.join('.'));
+  }
+  return parts.join(' ');
+}
+
+// Why a field is off-limits, or null when Typerra may attach to it
+export function fieldExclusionReason(el: HTMLElement, ignoredFields: string[] = []): string | null {
+  if (el.closest(OPT_OUT)) return 'opted out by the page';
+  if (ignoredFields.includes(fieldKey(el))) return 'ignored by you';
+  if (el.closest(OPT_IN)) return null;
+  if (autocompleteTokens(el).some((t) => SENSITIVE_AUTOCOMPLETE.test(t))) return 'sensitive field';
+  if (isPasswordAdjacent(el)) return 'login form';
+  if (el.closest(CODE_EDITORS)) return 'code editor';
+  // Rich editors (Gmail, Docs, ...) often turn native spellcheck off to run their own, so these two
+  // only count on plain inputs/textareas, where they usually mark handles, codes and identifiers
+  if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+    if (autocompleteTokens(el).includes('off')) return 'autocomplete off';
+    if (el.closest('[spellcheck]')?.getAttribute('spellcheck') === 'false') return 'spellcheck off';
+  }
+  return null;
+}
+
+export function isFieldAllowed(el: HTMLElement, ignoredFields?: string[]): boolean {
+  return fieldExclusionReason(el, ignoredFields) === null;
+}
@@ -0,0 +1,95 @@
+// Per-field history of edits applied by Typerra (Apply/Replace/Insert/suggestions).
+// Native undo is preserved where the browser lets us insert via execCommand, but rich editors and
+// pages that cancel beforeinput fall back to direct DOM writes, so we keep our own stack as well.
+
+// value: inputs/textareas; html: contentEditable (markup is restored together with the text)
+export type EditSnapshot = { kind: 'value' | 'html'; content: string };
+type HistoryEntry = { before: EditSnapshot; after: EditSnapshot };
+type FieldHistory = { undo: HistoryEntry[]; redo: HistoryEntry[] };
+
+const MAX_HISTORY = 50;
+const histories = new WeakMap<HTMLElement, FieldHistory>();
+
+function getHistory(el: HTMLElement): FieldHistory {
+  let h = histories.get(el);
+  if (!h) { h = { undo: [], redo: [] }; histories.set(el, h); }
+  return h;
+}
+
+function notify() {
+  try { document.dispatchEvent(new CustomEvent('gx:history')); } catch {}
+}
+
+export function takeSnapshot(el: HTMLElement): EditSnapshot {
+  if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) return { kind: 'value', content: el.value };
+  return { kind: 'html', content: el.innerHTML };
+}
+
+function matches(el: HTMLElement, snap: EditSnapshot): boolean {
+  const now = takeSnapshot(el);
+  return now.kind === snap.kind && now.content === snap.content;
+}
+
+// Put a field back to a snapshot; for contentEditable only safe when the editor has no document model
+export function restoreSnapshot(el: HTMLElement, snap: EditSnapshot) {
+  if (snap.kind === 'value' && (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement)) {
+    el.value = snap.content;
+    const pos = el.value.length;
+    try { el.setSelectionRange(pos, pos); } catch {}
+  } else {
+    el.innerHTML = snap.content;
+  }
+  try { el.dispatchEvent(new Event('input', { bubbles: true })); } catch {}
+}
+
+// Record a Typerra edit; call with the snapshot taken right before mutating the field
+export function recordEdit(el: HTMLElement, before: EditSnapshot) {
+  const after = takeSnapshot(el);
+  if (after.content === before.content) return;
+  const h = getHistory(el);
+  h.undo.push({ before, after });
+  if (h.undo.length > MAX_HISTORY) h.undo.shift();
+  h.redo = [];
+  notify();
+}
+
+export function canUndo(el: HTMLElement | null): boolean {
+  return !!el && (histories.get(el)?.undo.length ?? 0) > 0;
+}
+
+export function canRedo(el: HTMLElement | null): boolean {
+  return !!el && (histories.get(el)?.redo.length ?? 0) > 0;
+}
+
+// Undo the most recent Typerra edit. Refuses (and drops the stale history) when the user has
+// changed the field since, because restoring would discard their typing.
+export function undoEdit(el: HTMLElement): boolean {
+  const h = histories.get(el);
+  const entry = h?.undo.pop();
+  if (!h || !entry) return false;
+  if (!matches(el, entry.after)) {
+    h.undo = [];
+    h.redo = [];
+    notify();
+    return false;
+  }
+  restoreSnapshot(el, entry.before);
+  h.redo.push(entry);
+  notify();
+  return true;
+}
+
+export function redoEdit(el: HTMLElement): boolean {
+  const h = histories.get(el);
+  const entry = h?.redo.pop();
+  if (!h || !entry) return false;
+  if (!matches(el, entry.before)) {
+    h.redo = [];
+    notify();
+    return false;
+  }
+  restoreSnapshot(el, entry.after);
+  h.undo.push(entry);
+  notify();
+  return true;
+}
@@ -0,0 +1,115 @@
+// Per-field language: detected from the field's text (Chrome's LanguageDetector via the in-page
+// script, with a script/stopword guess as fallback) or picked by the user in the panel.
+// Detection is cached per element and only redone once the text has changed noticeably.
+
+import { baseLanguage } from '../shared/languages';
+
+export type LanguageCandidate = { language: string; confidence: number };
+
+// Shorter text is too ambiguous to detect; use the previous result or the first preferred language
+const MIN_DETECT_CHARS = 20;
+// Re-detect once the text length moved this far from the last detection
+const REDETECT_DELTA = 80;
+// A top candidate at least this confident wins even when it isn't a preferred language
+const CONFIDENT = 0.6;
+// Otherwise a preferred language with at least this confidence is taken over the top candidate
+const PLAUSIBLE = 0.15;
+
+const detected = new WeakMap<HTMLElement, { language: string; length: number }>();
+const overrides = new WeakMap<HTMLElement, string>();
+
+export function fieldLanguageOverride(el: HTMLElement): string | null {
+  return overrides.get(el) ?? null;
+}
+
+// null goes back to automatic detection
+export function setFieldLanguageOverride(el: HTMLElement, language: string | null) {
+  if (language) overrides.set(el, language);
+  else overrides.delete(el);
+}
+
+// Override or last detection, without detecting again (for checks that run on every keystroke)
+export function knownFieldLanguage(el: HTMLElement): string | null {
+  return overrides.get(el) ?? detected.get(el)?.language ?? null;
+}
+
+// Unicode scripts that pin down the language on their own; checked in order (kana before Han)
+const SCRIPTS: Array<[RegExp, string]> = [
+  [/[\u3040-\u30ff]/g, 'ja'],
+  [/[\uac00-\ud7af]/g, 'ko'],
+  [/[\u4e00-\u9fff]/g, 'zh'],
+  [/[\u0400-\u04ff]/g, 'ru'],
+  [/[\u0600-\u06ff]/g, 'ar'],
+  [/[\u0590-\u05ff]/g, 'he'],
+  [/[\u0370-\u03ff]/g, 'el'],
+  [/[\u0900-\u097f]/g, 'hi'],
+  [/[\u0e00-\u0e7f]/g, 'th'],
+];
+
+// Frequent function words for Latin-script languages
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'it', 'you', 'for', 'with', 'this', 'was', 'have', 'not'],
+  es: ['el', 'la', 'los', 'las', 'que', 'de', 'y', 'en', 'es', 'por', 'para', 'con', 'una', 'del', 'pero', 'muy'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'que', 'une', 'dans', 'pour', 'pas', 'vous', 'avec', 'sur', 'nous', 'du'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'mit', 'den', 'ein', 'eine', 'auf', 'zu', 'auch', 'wir'],
+  it: ['il', 'che', 'di', 'e', 'la', 'un', 'per', 'non', 'sono', 'una', 'con', 'del', 'gli', 'anche', 'questo', 'ma'],
+  pt: ['o', 'que', 'de', 'e', 'não', 'um', 'uma', 'para', 'com', 'os', 'do', 'da', 'em', 'mas', 'você', 'está'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'niet', 'dat', 'ik', 'je', 'op', 'met', 'voor', 'zijn', 'ook', 'maar'],
+};
+
+// Best local guess, or null when nothing stands out
+export function guessLanguage(text: string): string | null {
+  const letters = text.replace(/[\s\d\p{P}\p{S}]/gu, '').length;
+  if (!letters) return null;
+  for (const [re, lang] of SCRIPTS) {
+    if ((text.match(re)?.length || 0) / letters > 0.3) return lang;
+  }
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < 3) return null;
+  let best: string | null = null;
+  let bestHits = 0;
+  for (const [lang, list] of Object.entries(STOPWORDS)) {
+    const set = new Set(list);
+    const hits = words.filter((w) => set.has(w)).length;
+    if (hits > bestHits) { best = lang; bestHits = hits; }
+  }
+  return bestHits / words.length >= 0.08 ? best : null;
+}
+
+function pickLanguage(candidates: LanguageCandidate[] | null, text: string, preferred: string[]): string {
+  const ranked = (candidates || [])
+    .map((c) => ({ language: baseLanguage(c.language), confidence: c.confidence }))
+    .filter((c) => c.language && c.language !== 'und');
+  const top = ranked[0];
+  if (top && top.confidence >= CONFIDENT) return top.language;
+  const hit = ranked.find((c) => c.confidence >= PLAUSIBLE && preferred.includes(c.language));
+  if (hit) return hit.language;
+  if (top) return top.language;
+  return guessLanguage(text) || preferred[0] || 'en';
+}
+
+// Detected language of the field's text, ignoring any override
+export async function detectFieldLanguage(
+  el: HTMLElement,
+  text: string,
+  preferred: string[],
+  detect: (text: string) => Promise<LanguageCandidate[] | null>,
+): Promise<string> {
+  const cached = detected.get(el);
+  const length = text.trim().length;
+  if (length < MIN_DETECT_CHARS) return cached?.language || preferred[0] || 'en';
+  if (cached && Math.abs(length - cached.length) < REDETECT_DELTA) return cached.language;
+  const language = pickLanguage(await detect(text).catch(() => null), text, preferred);
+  detected.set(el, { language, length });
+  return language;
+}
+
+// Language to run the models in for this field
+export async function resolveFieldLanguage(
+  el: HTMLElement,
+  text: string,
+  preferred: string[],
+  detect: (text: string) => Promise<LanguageCandidate[] | null>,
+): Promise<string> {
+  return overrides.get(el) ?? detectFieldLanguage(el, text, preferred, detect);
+}
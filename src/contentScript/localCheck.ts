@@ -0,0 +1,163 @@
+// Local, rule-based proofreading: no model, so it runs on every keystroke and still underlines
+// something where Proofreader is unavailable. Produces ranges in the same shape as the model's
+// (shared/models.ts buildProofreadPayload); model results win where the two overlap.
+
+import type { ProofreadRange } from '../shared/models';
+
+// Words that are correct twice in a row often enough ("I had had enough", "said that that was")
+const REPEAT_OK = new Set(['had', 'that']);
+
+// Frequent English misspellings; the replacement keeps the first letter's case
+const MISSPELLINGS: Record<string, string> = {
+  accomodate: 'accommodate', acheive: 'achieve', adress: 'address', alot: 'a lot', beleive: 'believe',
+  becuase: 'because', calender: 'calendar', collegue: 'colleague', comming: 'coming', concious: 'conscious',
+  definately: 'definitely', enviroment: 'environment', existance: 'existence', foward: 'forward',
+  goverment: 'government', grammer: 'grammar', happend: 'happened', immediatly: 'immediately',
+  independant: 'independent', knowlege: 'knowledge', neccessary: 'necessary', occured: 'occurred',
+  occurence: 'occurrence', persue: 'pursue', posible: 'possible', prefered: 'preferred', publically: 'publicly',
+  realy: 'really', recieve: 'receive', recomend: 'recommend', refered: 'referred', seperate: 'separate',
+  succesful: 'successful', teh: 'the', thier: 'their', tomorow: 'tomorrow', tommorow: 'tomorrow',
+  truely: 'truly', untill: 'until', wich: 'which', wierd: 'weird',
+};
+
+// a/an goes by sound, not spelling: "a university", "an hour"
+const VOWEL_LETTER_CONSONANT_SOUND = /^(uni|use|usu|usa|uti|ure|eu|ewe|one|once|ubiq)/i;
+const CONSONANT_LETTER_VOWEL_SOUND = /^(hour|honest|honou?r|heir)/i;
+
+// A period after these doesn't end the sentence; neither does one after dotted initials ("U.S.", "p.m.")
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'no', 'approx', 'cf', 'al', 'fig',
+  'a.m', 'p.m', 'inc', 'jr', 'sr',
+]);
+const DOTTED_ABBREVIATION = /^(\p{L}\.)+\p{L}?$/u;
+
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '“': '”' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{', '”': '“' };
+
+function matchCase(word: string, replacement: string): string {
+  return word[0] === word[0].toUpperCase() ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+}
+
+function repeatedWords(text: string, out: ProofreadRange[]) {
+  const re = /(?<![\p{L}\p{N}])(\p{L}+)([ \t]+)\1(?![\p{L}\p{N}])/giu;
+  for (const m of text.matchAll(re)) {
+    if (REPEAT_OK.has(m[1].toLowerCase())) continue;
+    // Underline the second copy along with the space before it; removing both fixes it
+    const start = m.index! + m[1].length;
+    out.push({ start, end: m.index! + m[0].length, replacement: '', type: 'grammar', explanation: `Repeated word "${m[1]}".` });
+  }
+}
+
+function doubleSpaces(text: string, out: ProofreadRange[]) {
+  // Only between words; leading spaces are indentation
+  for (const m of text.matchAll(/(?<=\S) {2,}(?=\S)/g)) {
+    out.push({ start: m.index!, end: m.index! + m[0].length, replacement: ' ', type: 'punctuation', explanation: 'Extra space.' });
+  }
+}
+
+function misspellings(text: string, out: ProofreadRange[]) {
+  for (const m of text.matchAll(/(?<![\p{L}\p{N}'])\p{L}+(?![\p{L}\p{N}'])/gu)) {
+    const fix = MISSPELLINGS[m[0].toLowerCase()];
+    if (!fix) continue;
+    out.push({ start: m.index!, end: m.index! + m[0].length, replacement: matchCase(m[0], fix), type: 'spelling', explanation: `Did you mean "${fix}"?` });
+  }
+}
+
+function articles(text: string, out: ProofreadRange[]) {
+  for (const m of text.matchAll(/(?<![\p{L}\p{N}])(a|an)\s+(\p{L}[\p{L}\p{N}-]*)/giu)) {
+    const [, article, next] = m;
+    // Acronyms ("an FAQ", "a URL") depend on how they're read
+    if (next.length > 1 && next === next.toUpperCase()) continue;
+    const vowelSound = CONSONANT_LETTER_VOWEL_SOUND.test(next) || (/^[aeiou]/i.test(next) && !VOWEL_LETTER_CONSONANT_SOUND.test(next));
+    const expected = vowelSound ? 'an' : 'a';
+    if (article.toLowerCase() === expected) continue;
+    out.push({
+      start: m.index!,
+      end: m.index! + article.length,
+      replacement: matchCase(article, expected),
+      type: 'grammar',
+      explanation: `Use "${expected}" before "${next}".`,
+    });
+  }
+}
+
+function sentenceCapitals(text: string, out: ProofreadRange[]) {
+  for (const m of text.matchAll(/([.!?])(\s+)(\p{Ll})/gu)) {
+    const end = m.index!;
+    if (m[1] === '.') {
+      if (text[end - 1] === '.') continue; // ellipsis
+      if (/\d$/.test(text.slice(0, end))) continue; // inline numbered steps: "1. open the file 2. save it"
+      const word = (text.slice(0, end).match(/[\p{L}.]+$/u)?.[0] || '').toLowerCase();
+      if (ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word) || DOTTED_ABBREVIATION.test(word)) continue;
+    }
+    const at = end + m[1].length + m[2].length;
+    out.push({ start: at, end: at + 1, replacement: m[3].toUpperCase(), type: 'capitalization', explanation: 'Start the sentence with a capital letter.' });
+  }
+}
+
+function unmatchedPairs(text: string, out: ProofreadRange[]) {
+  const open: Array<{ ch: string; at: number }> = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (BRACKETS[ch]) {
+      open.push({ ch, at: i });
+    } else if (CLOSERS[ch]) {
+      const idx = open.map((o) => o.ch).lastIndexOf(CLOSERS[ch]);
+      if (idx >= 0) {
+        // Openers still inside the closed pair were never closed: "(or [text me)"
+        for (const o of open.splice(idx).slice(1)) out.push({ start: o.at, end: o.at + 1, type: 'punctuation', explanation: `Unmatched "${o.ch}".` });
+        continue;
+      }
+      // Smileys and list markers: ":)", "1)", "a)"
+      if (ch === ')' && /(^|\s)([:;]-?|\w)$/.test(text.slice(Math.max(0, i - 3), i))) continue;
+      out.push({ start: i, end: i + 1, type: 'punctuation', explanation: `Unmatched "${ch}".` });
+    }
+  }
+  for (const o of open) out.push({ start: o.at, end: o.at + 1, type: 'punctuation', explanation: `Unmatched "${o.ch}".` });
+  // Straight double quotes open and close with the same character; an odd count leaves the last one open
+  const quotes = [...text.matchAll(/"/g)];
+  if (quotes.length % 2) {
+    const at = quotes[quotes.length - 1].index!;
+    out.push({ start: at, end: at + 1, type: 'punctuation', explanation: 'Unmatched quotation mark.' });
+  }
+}
+
+// language: the field's language when known; the spelling and a/an rules are English-only
+export function localProofread(text: string, language: string | null): ProofreadRange[] {
+  const out: ProofreadRange[] = [];
+  repeatedWords(text, out);
+  doubleSpaces(text, out);
+  sentenceCapitals(text, out);
+  unmatchedPairs(text, out);
+  if (language === 'en') {
+    misspellings(text, out);
+    articles(text, out);
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+// Model ranges plus the local ones that don't overlap any of them
+export function mergeRanges(model: ProofreadRange[], local: ProofreadRange[]): ProofreadRange[] {
+  const extra = local.filter((l) => !model.some((r) => l.start < Math.max(r.end, r.start + 1) && Math.max(l.end, l.start + 1) > r.start));
+  return [...model, ...extra].sort((a, b) => a.start - b.start);
+}
+
+// Carry ranges found for `before` over to `after` (one edit later): ranges before the edit stay, ranges
+// after it shift, ranges touching it are dropped until the next check. keepAdjacent keeps ranges that
+// only border the edit, for exact-position matching ("Ignore" survives typing right after the word).
+export function carryRanges(ranges: ProofreadRange[], before: string, after: string, keepAdjacent = false): ProofreadRange[] {
+  if (before === after) return ranges;
+  let prefix = 0;
+  const max = Math.min(before.length, after.length);
+  while (prefix < max && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < max - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  const changedEnd = before.length - suffix;
+  const delta = after.length - before.length;
+  const out: ProofreadRange[] = [];
+  for (const r of ranges) {
+    if (r.end < prefix || (keepAdjacent && r.end === prefix)) out.push(r);
+    else if (r.start > changedEnd || (keepAdjacent && r.start === changedEnd)) out.push({ ...r, start: r.start + delta, end: r.end + delta });
+  }
+  return out;
+}
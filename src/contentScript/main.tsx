@@ -1,5 +1,22 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import { DiffView, diffToEdits } from './diff';
+import { applyRanges, getEditorAdapter, isSilentEdit, type EditorAdapter, type TextEdit } from './adapters';
+import { DOCS_EDITOR_SELECTOR, isDocsEditor, observeDocsChanges } from './docs';
+import { canRedo, canUndo, redoEdit, undoEdit } from './history';
+import { fieldKey, isFieldAllowed } from './fieldRules';
+import { detectFieldLanguage, fieldLanguageOverride, guessLanguage, knownFieldLanguage, resolveFieldLanguage, setFieldLanguageOverride, type LanguageCandidate } from './language';
+import { carryRanges, localProofread, mergeRanges } from './localCheck';
+import { dictionaryWordFor, filterIgnored, ignoreRuleFor } from './dictionary';
+import { addIgnoreRule, addToDictionary, getLastRewrite, getState, ignoreField, recordUsage, rememberRewrite, updateSettings } from './runtime';
+import { collectWritingContext, formatWritingContext } from './pageContext';
+import { callSharedHost, isHostUnavailable } from './sharedHost';
+import { DEFAULT_SETTINGS, MEMORY_POLICIES, applySiteRules, type AiFeature, type Dictionary, type RewriteLength, type RewritePreset, type RewriteTone, type Settings, type ShortcutAction, type SiteState, type Tone, type WriterLength } from '../shared/settings';
+import type { ContextAction } from '../shared/messages';
+import type { ModelStatusEvent } from '../shared/models';
+import { shortcutFromEvent } from '../shared/shortcuts';
+import { LANGUAGE_NAMES, languageName } from '../shared/languages';
+import { MODEL_LABELS } from '../shared/modelLabels';
 
 // Lazy-load the in-page script only when we first need it (reduces per-tab RAM)
 let inpageReady: Promise<void> | null = null;
@@ -13,23 +30,81 @@ function ensureInpage(): Promise<void> {
     script.src = chrome.runtime.getURL('assets/inpage.js');
     script.type = 'module';
     (document.head || document.documentElement).appendChild(script);
-    script.onload = () => { try { script.remove(); } catch {} resolve(); };
+    script.onload = () => { try { script.remove(); } catch {} postInpageLimits(); resolve(); };
     script.onerror = () => { resolve(); };
   });
   return inpageReady;
 }
 
+// The bridge script removes its <script> tag once loaded, so track injection ourselves.
+// Used to free or configure models without injecting the bridge just for that.
+function inpageInjected(): boolean {
+  return inpageReady !== null;
+}
+
+// In-page idle limits from the memory policy; re-sent whenever the bridge is (re)injected
+let inpageLimits: { modelIdleMs: number; hiddenIdleMs: number } | null = null;
+function postInpageLimits() {
+  if (!inpageLimits) return;
+  try { window.postMessage({ __gx: true, direction: 'cs->inpage', id: 0, method: 'configure', params: inpageLimits }, '*'); } catch {}
+}
+function configureInpage(limits: { modelIdleMs: number; hiddenIdleMs: number }) {
+  inpageLimits = limits;
+  inpageReady?.then(postInpageLimits);
+}
+
 // Simple RPC layer between content script and in-page script via window.postMessage
 let reqCounter = 1;
-const pending = new Map<number, { resolve: (value: any) => void; reject: (reason?: any) => void }>();
+const CALL_TIMEOUT_MS = 60_000;
+type PendingCall = {
+  resolve: (value: any) => void;
+  reject: (reason?: any) => void;
+  onPartial?: (text: string) => void;
+  timer: number;
+};
+const pending = new Map<number, PendingCall>();
+
+// Ask the in-page script to abort a running call (fire-and-forget, like ping)
+function postCancel(id: number) {
+  try { window.postMessage({ __gx: true, direction: 'cs->inpage', id: 0, method: 'cancel', params: { id } }, '*'); } catch {}
+}
+
+function armCallTimeout(id: number): number {
+  return window.setTimeout(() => {
+    const entry = pending.get(id);
+    if (entry) {
+      pending.delete(id);
+      postCancel(id);
+      entry.reject(new Error('In-page call timed out'));
+    }
+  }, CALL_TIMEOUT_MS);
+}
+
+// Cancellations surface as errors mentioning "cancel" on both sides of the bridge
+function isCancelError(e: any): boolean {
+  return String(e?.message || e || '').toLowerCase().includes('cancel');
+}
 
 window.addEventListener('message', (evt) => {
   const data = evt.data;
   if (!data || data.__gx !== true || data.direction !== 'inpage->cs') return;
-  const { id, result, error } = data;
+  const { id, result, error, partial } = data;
+  if (data.event === 'model-status') {
+    // Download progress/availability from the in-page script, for the panel
+    try { document.dispatchEvent(new CustomEvent('gx:model-status', { detail: data as ModelStatusEvent })); } catch {}
+    return;
+  }
   const entry = pending.get(id);
   if (!entry) return;
+  if (typeof partial === 'string') {
+    // Streaming chunk: keep the call pending and restart the timeout while output is still flowing
+    window.clearTimeout(entry.timer);
+    entry.timer = armCallTimeout(id);
+    try { entry.onPartial?.(partial); } catch {}
+    return;
+  }
   pending.delete(id);
+  window.clearTimeout(entry.timer);
   if (error) {
     // Only warn if it's not a benign cancellation
     const msg = String(error).toLowerCase();
@@ -40,6 +115,7 @@ window.addEventListener('message', (evt) => {
   }
 });
 
+
 // Lightweight heartbeat: if inpage bridge is present, send a ping periodically so the page-side
 // script can detect extension activity. If the extension is disabled/removed or the content script
 // goes away, heartbeats stop and the inpage script self-disposes to free memory.
@@ -51,7 +127,7 @@ try {
     const HEARTBEAT_INTERVAL_MS = 15_000; // match inpage check cadence
     const t = setInterval(() => {
       try {
-        if (document.getElementById('typerra-inpage')) {
+        if (inpageInjected()) {
           // Fire-and-forget ping (do not ensure/inject)
           window.postMessage({ __gx: true, direction: 'cs->inpage', id: 0, method: 'ping', params: {} }, '*');
         }
@@ -63,24 +139,72 @@ try {
   }
 } catch {}
 
-async function callInpage<T = any>(method: string, params: any): Promise<T> {
+// onPartial receives the accumulated text so far for streaming methods (params.stream = true).
+// Aborting `signal` rejects the call right away and tells the in-page script to stop the model call.
+async function callInpage<T = any>(
+  method: string,
+  params: any,
+  opts: { onPartial?: (text: string) => void; signal?: AbortSignal } = {}
+): Promise<T> {
+  const { signal } = opts;
+  if (signal?.aborted) throw new Error('Request cancelled');
   // Ensure the in-page bridge is present before posting
   try { await ensureInpage(); } catch {}
+  if (signal?.aborted) throw new Error('Request cancelled');
   const id = reqCounter++;
   const p = new Promise<T>((resolve, reject) => {
-    pending.set(id, { resolve: (value) => resolve(value as T), reject });
     // Timeout safety
-    setTimeout(() => {
-      if (pending.has(id)) {
-        pending.delete(id);
-        reject(new Error('In-page call timed out'));
-      }
-    }, 60000);
+    pending.set(id, { resolve: (value) => resolve(value as T), reject, onPartial: opts.onPartial, timer: armCallTimeout(id) });
   });
+  signal?.addEventListener('abort', () => {
+    const entry = pending.get(id);
+    if (!entry) return;
+    pending.delete(id);
+    window.clearTimeout(entry.timer);
+    postCancel(id);
+    entry.reject(new Error('Request cancelled'));
+  }, { once: true });
   window.postMessage({ __gx: true, direction: 'cs->inpage', id, method, params }, '*');
   return p;
 }
 
+// The shared host runs but lacks the built-in APIs (extension pages don't get them on this Chrome);
+// stop asking it for the rest of the page's life
+let sharedHostUnsupported = false;
+
+// Feature of a model call, for Settings.providers; `ensure` names the model instead
+const METHOD_FEATURES: Record<string, AiFeature> = {
+  proofread: 'proofread', rewrite: 'rewrite', write: 'write', translate: 'translate', summarize: 'summarize', ask: 'ask',
+};
+const ENSURE_FEATURES: Record<string, AiFeature> = {
+  proofreader: 'proofread', rewriter: 'rewrite', writer: 'write', translator: 'translate', summarizer: 'summarize', languagemodel: 'ask',
+};
+
+// Model calls; same contract as callInpage. Features set to the OpenAI-compatible provider run in the
+// background worker. Otherwise settings.modelHost picks the in-page bridge above or the shared
+// offscreen host behind the worker; shared-host calls the host can't serve are retried in the page,
+// so the in-page script stays the fallback.
+async function callModel<T = any>(
+  method: string,
+  params: any,
+  opts: { onPartial?: (text: string) => void; signal?: AbortSignal } = {}
+): Promise<T> {
+  const settings = (await getState())?.settings ?? DEFAULT_SETTINGS;
+  const feature = method === 'ensure' ? ENSURE_FEATURES[params?.model] : METHOD_FEATURES[method];
+  if (feature && settings.providers[feature] === 'openai') {
+    return callSharedHost<T>(method, { ...params, provider: 'openai' }, opts);
+  }
+  if (settings.modelHost !== 'shared' || sharedHostUnsupported) return callInpage<T>(method, params, opts);
+  try {
+    return await callSharedHost<T>(method, params, opts);
+  } catch (e: any) {
+    const unsupported = String(e?.message || e).includes('not supported in this browser');
+    if (!unsupported && !isHostUnavailable(e)) throw e;
+    if (unsupported) sharedHostUnsupported = true;
+    return callInpage<T>(method, params, opts);
+  }
+}
+
 // Utilities to work with editable elements
 function isEditable(el: Element | null): el is HTMLElement {
   if (!el) return false;
@@ -108,6 +232,11 @@ function getActiveEditable(): HTMLElement | null {
       }
     }
   } catch {}
+  // Google Docs: focus sits in a hidden input iframe; the canvas editor is the target
+  if (IS_GOOGLE_DOCS) {
+    const docsEditor = document.querySelector(DOCS_EDITOR_SELECTOR) as HTMLElement | null;
+    if (docsEditor) return docsEditor;
+  }
   // Gmail compose: attempt to locate the message body editor explicitly
   if (IS_GMAIL) {
     const body = document.querySelector('div[aria-label="Message Body"][contenteditable="true"]') as HTMLElement | null;
@@ -124,25 +253,31 @@ const PANEL_MAX_VH = 0.7;
 const BUBBLE = 28;
 const BASE_FONT = 13;
 const SMALL_FONT = 10;
+// Suggestion bubble: the replacement plus Ignore / Ignore always / Add to dictionary
+const SUGGEST_MAX_W = 320;
 const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
 // Host feature flags
 const IS_GOOGLE_DOCS = typeof location !== 'undefined' && /(^|\.)docs\.google\.com$/.test(location.hostname);
 const IS_GMAIL = typeof location !== 'undefined' && /(^|\.)mail\.google\.com$/.test(location.hostname);
 // Performance guards
-const MAX_REALTIME_CHARS = 2000; // disable realtime proofread and overlay beyond this size
-const MIN_INTERVAL_MS = 700; // minimum time between consecutive proofread calls
 
 // Types for in-page proofread payload with ranges
-type ProofreadRange = { start: number; end: number; replacement?: string };
+type ProofreadRange = { start: number; end: number; replacement?: string; type?: string; explanation?: string };
 type ProofreadPayload = { corrected: string; corrections: any[]; ranges?: ProofreadRange[]; cancelled?: boolean };
+// Review state for a single correction in the Proofread tab
+type CorrectionDecision = 'pending' | 'accepted' | 'rejected';
 
 // Get full text from an editable element
 function getEditableText(el: HTMLElement): string {
-  return (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) ? el.value : el.innerText || '';
+  return getEditorAdapter(el).getText();
 }
 
-// Create an overlay to draw red underlines for incorrect ranges without mutating the DOM
-function createUnderlineOverlay(target: HTMLElement) {
+// Create an overlay to draw red underlines for incorrect ranges without mutating the DOM.
+// Inputs/textareas are measured with a transparent text mirror; rich editors report real text
+// rects through their adapter, which stays accurate across fonts, images and nested markup.
+function createUnderlineOverlay(adapter: EditorAdapter) {
+  const target = adapter.root;
+  const measuresRects = adapter.getRectsForRange(0, 0) !== null;
   const overlay = document.createElement('div');
   overlay.style.position = 'fixed';
   overlay.style.pointerEvents = 'none';
@@ -175,9 +310,11 @@ function createUnderlineOverlay(target: HTMLElement) {
     content.style.paddingRight = cs.paddingRight;
     content.style.paddingBottom = cs.paddingBottom;
     content.style.paddingLeft = cs.paddingLeft;
+    if (measuresRects) layoutMarks();
   };
 
   const syncScroll = () => {
+    if (measuresRects) { layoutMarks(); return; }
     const st = (target as any).scrollTop || 0;
     const sl = (target as any).scrollLeft || 0;
     content.style.transform = `translate(${-sl}px, ${-st}px)`;
@@ -207,7 +344,30 @@ function createUnderlineOverlay(target: HTMLElement) {
   const ro = new ResizeObserver(() => applyComputedStyles());
 
   let spanNodes: Array<{ node: HTMLSpanElement; start: number; end: number; underline: boolean }> = [];
+  // Rect mode: underline bars positioned from the adapter's client rects
+  let markRanges: ProofreadRange[] = [];
+  const layoutMarks = () => {
+    while (content.firstChild) content.removeChild(content.firstChild);
+    const box = target.getBoundingClientRect();
+    for (const r of markRanges) {
+      for (const rect of adapter.getRectsForRange(r.start, r.end) || []) {
+        const bar = document.createElement('div');
+        bar.style.position = 'absolute';
+        bar.style.left = `${rect.left - box.left}px`;
+        bar.style.top = `${rect.bottom - box.top - 2}px`;
+        bar.style.width = `${rect.width}px`;
+        bar.style.borderBottom = '2px solid #ef4444';
+        content.appendChild(bar);
+      }
+    }
+  };
   const render = (text: string, ranges: ProofreadRange[] = []) => {
+    if (measuresRects) {
+      markRanges = text ? ranges.filter((r) => r.end > r.start) : [];
+      content.style.transform = '';
+      layoutMarks();
+      return;
+    }
     // Clear content
     while (content.firstChild) content.removeChild(content.firstChild);
     spanNodes = [];
@@ -252,6 +412,7 @@ function createUnderlineOverlay(target: HTMLElement) {
   };
 
   const getRectForIndex = (index: number): DOMRect | null => {
+    if (measuresRects) return adapter.getRectsForRange(index, index + 1)?.[0] ?? null;
     for (let i = 0; i < spanNodes.length; i++) {
       const s = spanNodes[i];
       if (index >= s.start && index < s.end) {
@@ -262,6 +423,7 @@ function createUnderlineOverlay(target: HTMLElement) {
   };
 
   const getRectForRange = (start: number, end: number): DOMRect | null => {
+    if (measuresRects) return adapter.getRectsForRange(start, end)?.[0] ?? null;
     // Use the first span intersecting the range
     for (let i = 0; i < spanNodes.length; i++) {
       const s = spanNodes[i];
@@ -275,75 +437,228 @@ function createUnderlineOverlay(target: HTMLElement) {
   return { element: overlay, content, attach, unmount, render, applyComputedStyles, syncScroll, getRectForIndex, getRectForRange };
 }
 
-function replaceSelection(el: HTMLElement, replacement: string) {
-  if (el instanceof HTMLTextAreaElement || el instanceof HTMLInputElement) {
-    const start = el.selectionStart ?? el.value.length;
-    const end = el.selectionEnd ?? el.value.length;
-    const before = el.value.slice(0, start);
-    const after = el.value.slice(end);
-    const newVal = before + replacement + after;
-    el.value = newVal;
-    const newCursor = before.length + replacement.length;
-    el.setSelectionRange(newCursor, newCursor);
-    el.dispatchEvent(new Event('input', { bubbles: true }));
-  } else if (el.isContentEditable) {
-    const sel = window.getSelection();
-    if (sel && sel.rangeCount > 0) {
-      const range = sel.getRangeAt(0);
-      range.deleteContents();
-      range.insertNode(document.createTextNode(replacement));
-      range.collapse(false);
-      // Fire input event for frameworks/listeners
-      try { el.dispatchEvent(new Event('input', { bubbles: true })); } catch {}
-    }
-  }
+// Edits below go through the element's editor adapter and resolve to false when nothing was applied
+function replaceSelection(el: HTMLElement, replacement: string, emitInput: boolean = true): Promise<boolean> {
+  const adapter = getEditorAdapter(el);
+  const text = adapter.getText();
+  const sel = adapter.getSelection() ?? { start: text.length, end: text.length };
+  return adapter.applyEdits(text, [{ start: sel.start, end: sel.end, replacement }], { emitInput });
+}
+
+// Apply replacement ranges (offsets into `base`, the field's current text) as individual edits so
+// contentEditable markup around unchanged text survives
+function applyTextEdits(el: HTMLElement, base: string, edits: ProofreadRange[], emitInput: boolean = true): Promise<boolean> {
+  const textEdits = edits.filter((r): r is TextEdit => typeof r.replacement === 'string');
+  return getEditorAdapter(el).applyEdits(base, textEdits, { emitInput });
 }
 
 function getSelectionText(el: HTMLElement): string {
-  if (el instanceof HTMLTextAreaElement || el instanceof HTMLInputElement) {
-    const start = el.selectionStart ?? 0;
-    const end = el.selectionEnd ?? 0;
-    return el.value.substring(start, end);
-  } else if (el.isContentEditable) {
-    const sel = window.getSelection();
-    return sel?.toString() ?? '';
-  }
-  return '';
+  const adapter = getEditorAdapter(el);
+  const sel = adapter.getSelection();
+  return sel ? adapter.getText().slice(sel.start, sel.end) : '';
+}
+
+// Insert text at an offset without replacing anything, e.g. a summary above a long reply
+function insertAt(el: HTMLElement, offset: number, text: string, emitInput: boolean = true): Promise<boolean> {
+  const adapter = getEditorAdapter(el);
+  const current = adapter.getText();
+  const at = Math.max(0, Math.min(offset, current.length));
+  return adapter.applyEdits(current, [{ start: at, end: at, replacement: text }], { emitInput });
+}
+
+function replaceWhole(el: HTMLElement, text: string, emitInput: boolean = true): Promise<boolean> {
+  // Only touch the words that actually change so formatting and structure are kept
+  const current = getEditableText(el);
+  return applyTextEdits(el, current, diffToEdits(current, text), emitInput);
+}
+
+// Where a panel request's text came from: the selection when it ran, else the whole field
+type SourceRange = { start: number; end: number; text: string };
+
+function sourceRange(el: HTMLElement): SourceRange {
+  const adapter = getEditorAdapter(el);
+  const full = adapter.getText();
+  const sel = adapter.getSelection();
+  return sel && sel.end > sel.start
+    ? { start: sel.start, end: sel.end, text: full.slice(sel.start, sel.end) }
+    : { start: 0, end: full.length, text: full };
+}
+
+// Where a source is now: where it was, else its only occurrence after edits elsewhere; -1 when it's gone
+function findSource(current: string, source: SourceRange): number {
+  if (!source.text) return -1;
+  const start = current.slice(source.start, source.end) === source.text ? source.start : current.indexOf(source.text);
+  if (start !== source.start && start >= 0 && current.indexOf(source.text, start + 1) >= 0) return -1;
+  return start;
+}
+
+// Put a result in place of its source, whatever is selected by the time it's applied; false when
+// the source is gone
+function replaceSource(el: HTMLElement, source: SourceRange, replacement: string): Promise<boolean> {
+  const current = getEditableText(el);
+  const start = findSource(current, source);
+  if (start < 0) return Promise.resolve(false);
+  // Only touch the words that actually change, as replaceWhole does
+  const edits = diffToEdits(source.text, replacement).map((e) => ({ ...e, start: e.start + start, end: e.end + start }));
+  return applyTextEdits(el, current, edits);
 }
 
-function replaceWhole(el: HTMLElement, text: string, emitInput: boolean = true) {
-  if (el instanceof HTMLTextAreaElement || el instanceof HTMLInputElement) {
-    el.value = text;
-    const pos = el.value.length;
-    el.setSelectionRange(pos, pos);
-    if (emitInput) el.dispatchEvent(new Event('input', { bubbles: true }));
-  } else if (el.isContentEditable) {
-    el.textContent = text;
-    // Notify listeners so realtime proofread refreshes immediately
-    try { if (emitInput) el.dispatchEvent(new Event('input', { bubbles: true })); } catch {}
+function insertAfterSource(el: HTMLElement, source: SourceRange, text: string): Promise<boolean> {
+  const current = getEditableText(el);
+  const start = findSource(current, source);
+  if (start < 0) return Promise.resolve(false);
+  const at = start + source.text.length;
+  return applyTextEdits(el, current, [{ start: at, end: at, replacement: text }]);
+}
+
+const CONTEXT_ACTION_LABELS: Record<ContextAction['kind'], string> = {
+  proofread: 'Proofreading…',
+  rewrite: 'Rewriting…',
+  write: 'Writing…',
+};
+
+async function preferredLanguages(): Promise<string[]> {
+  const languages = (await getState())?.settings.preferredLanguages;
+  return languages?.length ? languages : DEFAULT_SETTINGS.preferredLanguages;
+}
+
+// Detection only needs a sample of the text
+function detectLanguage(text: string): Promise<LanguageCandidate[] | null> {
+  return callModel<LanguageCandidate[] | null>('detectLanguage', { text: text.slice(0, 1000) });
+}
+
+// Language the models should use for a field: the one picked in the panel, else detected from its text
+async function fieldLanguage(el: HTMLElement, text: string): Promise<string> {
+  return resolveFieldLanguage(el, text, await preferredLanguages(), detectLanguage);
+}
+
+// Run a context menu action on the field's selection (the whole field when nothing is selected,
+// except for Write, which needs the selection as its prompt) and put the result in its place.
+// Resolves to an error message, or null on success.
+async function runContextAction(el: HTMLElement, action: ContextAction, signal: AbortSignal): Promise<string | null> {
+  const adapter = getEditorAdapter(el);
+  if (!adapter.canEdit) return 'Typerra cannot edit this field.';
+  const base = adapter.getText();
+  const sel = adapter.getSelection();
+  const hasSelection = !!sel && sel.end > sel.start;
+  if (action.kind === 'write' && !hasSelection) return 'Select the text to use as a prompt.';
+  const range = sel && hasSelection ? sel : { start: 0, end: base.length };
+  const text = base.slice(range.start, range.end);
+  if (!text.trim()) return 'Nothing to process.';
+
+  const language = await fieldLanguage(el, base);
+  const state = await getState();
+  const settings = state ? applySiteRules(state.settings, state.site) : DEFAULT_SETTINGS;
+  // Rewriting the whole field leaves no surrounding text worth sending
+  const pageContext = settings.usePageContext && action.kind !== 'proofread'
+    ? formatWritingContext(collectWritingContext(el, action.kind === 'write' || hasSelection))
+    : '';
+  let result: string;
+  if (action.kind === 'proofread') {
+    const response = await callModel<ProofreadPayload>('proofread', { text, language }, { signal });
+    if (response?.cancelled) return null;
+    result = response.corrected;
+  } else if (action.kind === 'rewrite') {
+    rememberRewrite({ tone: action.tone, length: action.length, context: action.context });
+    result = await callModel<string>('rewrite', { text, tone: action.tone, length: action.length, context: action.context, pageContext, language }, { signal });
+  } else {
+    result = await callModel<string>('write', { prompt: text, tone: settings.defaultTone, length: settings.writerLength, pageContext, language }, { signal });
   }
+  recordUsage(action.kind);
+  if (signal.aborted || result === text) return null;
+
+  // The user may have kept typing while the model ran; never overwrite newer text
+  if (adapter.getText() !== base) return 'The text changed while Typerra was working. Try again.';
+  if (!adapter.setSelection(range.start, range.end)) return 'Could not apply the change in this editor.';
+  if (!(await replaceSelection(el, result))) return 'Could not apply the change in this editor.';
+  recordUsage('apply');
+  return null;
 }
 
+type PanelTab = 'proofread' | 'rewrite' | 'write' | 'translate' | 'summarize' | 'ask';
+
+// One-click instructions for the Ask tab
+const ASK_EXAMPLES = [
+  'Make this a bulleted list',
+  'Fix the tone for a customer apology',
+  'Extract action items',
+];
+type SummaryType = 'tldr' | 'key-points' | 'headline';
+type SummaryLength = 'short' | 'medium' | 'long';
+
 // UI Components
-function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable: () => void }) {
+function Popover({ target, settings, onDisable, onIgnoreField }: { target: HTMLElement | null; settings: Settings; onDisable: () => void; onIgnoreField: () => void }) {
+  const realtime = settings.realtimeProofread;
+  const shortcuts = settings.shortcuts;
   const [open, setOpen] = useState(false);
-  const [tab, setTab] = useState<'proofread' | 'rewrite' | 'write'>('proofread');
+  const [tab, setTab] = useState<PanelTab>('proofread');
   const [error, setError] = useState<string | null>(null);
   // Independent tab states
   const [pLoading, setPLoading] = useState(false);
   const [pResult, setPResult] = useState('');
+  // Text the corrections refer to, plus one decision per range
+  const [pReview, setPReview] = useState<{ base: string; ranges: ProofreadRange[]; decisions: CorrectionDecision[] } | null>(null);
 
   const [rwLoading, setRwLoading] = useState(false);
-  const [rwTone, setRwTone] = useState<'more-casual' | 'as-is' | 'more-formal'>('as-is');
-  const [rwLength, setRwLength] = useState<'shorter' | 'as-is' | 'longer'>('as-is');
+  const [rwTone, setRwTone] = useState<RewriteTone>(settings.rewriteTone);
+  const [rwLength, setRwLength] = useState<RewriteLength>(settings.rewriteLength);
   const [rwResult, setRwResult] = useState('');
 
   const [wLoading, setWLoading] = useState(false);
   const [wPrompt, setWPrompt] = useState('');
-  const [wTone, setWTone] = useState<'formal' | 'neutral' | 'casual'>('neutral');
-  const [wLength, setWLength] = useState<'short' | 'medium' | 'long'>('medium');
+  const [wTone, setWTone] = useState<Tone>(settings.defaultTone);
+  const [wLength, setWLength] = useState<WriterLength>(settings.writerLength);
   const [wResult, setWResult] = useState('');
 
+  const [trLoading, setTrLoading] = useState(false);
+  // '' until the user picks one; see trTargetLanguage
+  const [trTarget, setTrTarget] = useState('');
+  const [trResult, setTrResult] = useState('');
+  // Text each Rewrite/Translate/Summarize/Ask result replaces, captured when the request ran
+  const rwSourceRef = useRef<SourceRange | null>(null);
+  const trSourceRef = useRef<SourceRange | null>(null);
+  const smSourceRef = useRef<SourceRange | null>(null);
+
+  const [smLoading, setSmLoading] = useState(false);
+  const [smType, setSmType] = useState<SummaryType>('tldr');
+  const [smLength, setSmLength] = useState<SummaryLength>('short');
+  const [smResult, setSmResult] = useState('');
+
+  const [askLoading, setAskLoading] = useState(false);
+  const [askInstruction, setAskInstruction] = useState('');
+  const [askResult, setAskResult] = useState('');
+  // Replace swaps the result in for its source; Insert puts it right after it
+  const askSourceRef = useRef<SourceRange | null>(null);
+  // Source text each result is compared against in the diff view
+  const [pBase, setPBase] = useState('');
+  const [rwBase, setRwBase] = useState('');
+  const [wBase, setWBase] = useState('');
+  const [askBase, setAskBase] = useState('');
+  const [contextPreview, setContextPreview] = useState(false);
+  // Models downloading or unavailable in this page, keyed by model and language; dropped once ready
+  const [modelStatus, setModelStatus] = useState<Record<string, ModelStatusEvent>>({});
+  const [resultView, setResultView] = useState<'text' | 'inline' | 'split'>('inline');
+  // Field language: 'auto' follows detection (shown as detectedLang), anything else is the user's pick
+  const [langChoice, setLangChoice] = useState<string>('auto');
+  const [detectedLang, setDetectedLang] = useState<string | null>(null);
+  const panelLanguage = langChoice === 'auto' ? detectedLang : langChoice;
+  // Translate into the first preferred language the text isn't already in
+  const trTargetLanguage = trTarget
+    || settings.preferredLanguages.find((l) => l !== panelLanguage)
+    || (panelLanguage === 'en' ? 'es' : 'en');
+
+  // Panel options start from the configured defaults and follow changes to them
+  useEffect(() => {
+    setRwTone(settings.rewriteTone);
+    setRwLength(settings.rewriteLength);
+  }, [settings.rewriteTone, settings.rewriteLength]);
+  useEffect(() => {
+    setWTone(settings.defaultTone);
+    setWLength(settings.writerLength);
+  }, [settings.defaultTone, settings.writerLength]);
+  // Bumped on every Typerra edit/undo so the Undo/Redo buttons re-evaluate
+  const [, setHistoryTick] = useState(0);
+
   const [position, setPosition] = useState<{ top: number; left: number }>({ top: 0, left: 0 });
   const [panelPos, setPanelPos] = useState<{ top: number; left: number }>({ top: 0, left: 0 });
   const [panelMaxH, setPanelMaxH] = useState<number>(Math.round(window.innerHeight * 0.7));
@@ -358,6 +673,39 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
     | null
   >(null);
   const lastProofreadTextRef = useRef<string>('');
+  // One in-flight request per kind (panel tab): a new proofread aborts the previous proofread but
+  // leaves a running rewrite alone; closing the panel aborts them all
+  const abortRefs = useRef<Partial<Record<PanelTab, AbortController>>>({});
+
+  const beginRequest = (kind: PanelTab) => {
+    abortRefs.current[kind]?.abort();
+    const controller = new AbortController();
+    abortRefs.current[kind] = controller;
+    return controller;
+  };
+  const endRequest = (kind: PanelTab, controller: AbortController) => {
+    if (abortRefs.current[kind] !== controller) return false; // superseded or aborted
+    delete abortRefs.current[kind];
+    return true;
+  };
+  const abortRequests = () => {
+    const refs = abortRefs.current;
+    abortRefs.current = {};
+    // Let the auto-run proofread fire again next time since this one never finished
+    if (refs.proofread) lastProofreadTextRef.current = '';
+    refs.proofread?.abort();
+    refs.rewrite?.abort();
+    refs.write?.abort();
+    refs.translate?.abort();
+    refs.summarize?.abort();
+    refs.ask?.abort();
+    setPLoading(false);
+    setRwLoading(false);
+    setWLoading(false);
+    setTrLoading(false);
+    setSmLoading(false);
+    setAskLoading(false);
+  };
 
   const captureSelection = () => {
     if (!target) return;
@@ -387,7 +735,7 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
       setPosition({ top, left });
       return;
     }
-    const rect = target.getBoundingClientRect();
+    const rect = getEditorAdapter(target).root.getBoundingClientRect();
     // Fall back to pinned placement if rect is degenerate (seen in Gmail)
     if (!isFinite(rect.top) || !isFinite(rect.left) || rect.width < 4 || rect.height < 4) {
       const top = clamp(window.innerHeight - bubble - margin, margin, window.innerHeight - bubble - margin);
@@ -473,38 +821,119 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
     };
   }, [open]);
 
+  // Shortcuts, keyboard commands and the context menu (App handles the realtime/field actions).
+  // Read through a ref so the listener always sees the current target and options.
+  const onCommandRef = useRef<(command: ShortcutAction) => void>(() => {});
+  onCommandRef.current = (command) => {
+    if (!target) return;
+    if (command === 'open-panel') {
+      captureSelection();
+      setUserMoved(false);
+      setOpen(true);
+    } else if (command === 'proofread-now' && !realtime) {
+      // Without realtime underlines, "proofread now" means the panel's Proofread
+      setUserMoved(false);
+      setOpen(true);
+      setTab('proofread');
+      runProofread();
+    }
+  };
+  useEffect(() => {
+    const onCommand = (e: CustomEvent<ShortcutAction>) => onCommandRef.current(e.detail);
+    document.addEventListener('gx:command' as any, onCommand as any);
+    return () => { document.removeEventListener('gx:command' as any, onCommand as any); };
+  }, []);
+
+  useEffect(() => {
+    const onStatus = (e: CustomEvent<ModelStatusEvent>) => {
+      const key = `${e.detail.model}:${e.detail.language}`;
+      setModelStatus((prev) => {
+        const next = { ...prev };
+        if (e.detail.status === 'ready') delete next[key];
+        else next[key] = e.detail;
+        return next;
+      });
+    };
+    document.addEventListener('gx:model-status' as any, onStatus as any);
+    return () => { document.removeEventListener('gx:model-status' as any, onStatus as any); };
+  }, []);
+  // Failures are retried on the next open; only downloads still in progress stay listed
+  useEffect(() => {
+    if (open) return;
+    setModelStatus((prev) => Object.fromEntries(Object.entries(prev).filter(([, m]) => m.status === 'downloading')));
+  }, [open]);
+
+  useEffect(() => {
+    const onHistory = () => setHistoryTick((t) => t + 1);
+    document.addEventListener('gx:history' as any, onHistory as any);
+    return () => { document.removeEventListener('gx:history' as any, onHistory as any); };
+  }, []);
+
   // Broadcast panel open/close so App can keep target while interacting with UI
   useEffect(() => {
     try { document.dispatchEvent(new CustomEvent(open ? 'gx:panel-open' : 'gx:panel-close')); } catch {}
   }, [open]);
 
+  // Show the field's language when the panel opens
+  useEffect(() => {
+    if (!open || !target) return;
+    setLangChoice(fieldLanguageOverride(target) || 'auto');
+    let cancelled = false;
+    preferredLanguages()
+      .then((preferred) => detectFieldLanguage(target, getEditableText(target), preferred, detectLanguage))
+      .then((language) => { if (!cancelled) setDetectedLang(language); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [open, target]);
+
+  const changeLanguage = (choice: string) => {
+    if (!target) return;
+    setFieldLanguageOverride(target, choice === 'auto' ? null : choice);
+    setLangChoice(choice);
+    // Results in the old language no longer apply; realtime underlines are redone by App
+    try { document.dispatchEvent(new CustomEvent('gx:language')); } catch {}
+    if (tab === 'proofread') runProofread();
+  };
+
   // Load models lazily based on panel/tab usage
   useEffect(() => {
     if (!open) {
+      // Stop anything still generating for a panel nobody can see
+      abortRequests();
       // When panel closes, drop Writer/Rewriter but keep Proofreader to support realtime
-      try { callInpage('disposeNonProofreader', {}); } catch {}
+      // (the performance memory policy keeps them for the next open)
+      if (MEMORY_POLICIES[settings.memoryPolicy]?.disposeOnPanelClose && inpageInjected()) {
+        try { callInpage('disposeNonProofreader', {}); } catch {}
+      }
       return;
     }
     // On open, ensure proofreader is ready so first interaction is fast
-    try { callInpage('ensure', { model: 'proofreader' }); } catch {}
-  }, [open]);
+    if (!panelLanguage) return; // detection still running; the effect reruns with the language
+    try { callModel('ensure', { model: 'proofreader', language: panelLanguage }); } catch {}
+  }, [open, panelLanguage]);
 
   // Preload model for the active tab so it downloads in the background
   useEffect(() => {
-    if (!open) return;
+    if (!open || !panelLanguage) return;
     if (tab === 'write') {
-      try { callInpage('ensure', { model: 'writer' }); } catch {}
+      try { callModel('ensure', { model: 'writer', language: panelLanguage, tone: wTone, length: wLength }); } catch {}
     } else if (tab === 'rewrite') {
-      try { callInpage('ensure', { model: 'rewriter' }); } catch {}
+      try { callModel('ensure', { model: 'rewriter', language: panelLanguage, tone: rwTone, length: rwLength }); } catch {}
     } else if (tab === 'proofread') {
-      try { callInpage('ensure', { model: 'proofreader' }); } catch {}
+      try { callModel('ensure', { model: 'proofreader', language: panelLanguage }); } catch {}
+    } else if (tab === 'ask') {
+      try { callModel('ensure', { model: 'languagemodel', language: panelLanguage }); } catch {}
+    } else if (tab === 'summarize') {
+      try { callModel('ensure', { model: 'summarizer', language: panelLanguage, type: smType, length: smLength }); } catch {}
+    } else if (tab === 'translate' && panelLanguage !== trTargetLanguage) {
+      try { callModel('ensure', { model: 'translator', language: panelLanguage, targetLanguage: trTargetLanguage }); } catch {}
     }
-  }, [open, tab]);
+  }, [open, tab, panelLanguage, trTargetLanguage, smType, smLength, wTone, wLength, rwTone, rwLength]);
 
   // Auto-run proofread when opening the panel on Proofread tab or when switching to it
   useEffect(() => {
     if (!open || tab !== 'proofread' || !target || pLoading) return;
-    const text = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ? target.value : target.innerText;
+    const text = getEditableText(target);
     if (text === lastProofreadTextRef.current) return;
     lastProofreadTextRef.current = text;
     runProofread();
@@ -512,43 +941,92 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open, tab, target]);
 
+  // Abort in-flight work when the tab goes to the background or the panel unmounts
+  useEffect(() => {
+    const onVisibility = () => { if (document.visibilityState === 'hidden') abortRequests(); };
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      abortRequests();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const runProofread = async () => {
     if (!target) return;
-    setPLoading(true); setError(null); setPResult('');
+    const controller = beginRequest('proofread');
+    setPLoading(true); setError(null); setPResult(''); setPReview(null);
     try {
-      const text = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ? target.value : target.innerText;
+      const text = getEditableText(target);
       /* console.log('[Typerra][CS] Proofread start', {
         targetTag: (target as HTMLElement).tagName,
         isCE: (target as HTMLElement).isContentEditable,
         textLen: text?.length ?? 0,
         preview: (text || '').slice(0, 64)
       }); */
-      const response = await callInpage<{ corrected: string; corrections: any[] }>('proofread', { text });
+      setPBase(text);
+      const language = await fieldLanguage(target, text);
+      const response = await callModel<ProofreadPayload>('proofread', { text, language }, { signal: controller.signal });
+      if (response?.cancelled) return;
+      recordUsage('proofread');
       /* console.log('[Typerra][CS] Proofread success', {
         correctedLen: response?.corrected?.length ?? 0,
         correctionsCount: Array.isArray(response?.corrections) ? response.corrections.length : 'n/a'
       }); */
       setPResult(response.corrected);
+      const ranges = (Array.isArray(response?.ranges) ? response.ranges : [])
+        .filter((r) => typeof r.replacement === 'string' && r.replacement !== text.slice(r.start, r.end))
+        .sort((a, b) => a.start - b.start);
+      setPReview(ranges.length ? { base: text, ranges, decisions: ranges.map(() => 'pending') } : null);
     } catch (e: any) {
   // console.error('[Typerra][CS] Proofread error', e);
-      setError(e.message || String(e));
+      if (!isCancelError(e)) setError(e.message || String(e));
     } finally {
+      if (!endRequest('proofread', controller)) return;
       setPLoading(false);
       // Reposition panel after result renders
       try { (updatePopupPlacement as any)?.(true); } catch {}
     }
   };
 
-  const applyProofread = () => {
+  const reportApply = (ok: boolean) => {
+    if (ok) recordUsage('apply');
+    else setError('Could not apply the change in this editor. The text may have changed; try again.');
+    return ok;
+  };
+
+  const applyProofread = async () => {
     if (!target || !pResult) return;
     // Replace without emitting input to avoid immediate re-run
-    replaceWhole(target, pResult, false);
+    if (!reportApply(await replaceWhole(target, pResult, false))) return;
     // Clear overlays/suggestions until user types again
     try { document.dispatchEvent(new CustomEvent('gx:clear')); } catch {}
     // Reposition GX bubble to stay aligned
     updatePosition();
   };
 
+  const decideCorrection = (index: number, decision: CorrectionDecision) => {
+    setPReview((r) => r && ({ ...r, decisions: r.decisions.map((d, i) => (i === index ? decision : d)) }));
+  };
+
+  // Apply only accepted corrections; with acceptRemaining, pending ones count as accepted too
+  const applyReviewed = async (acceptRemaining: boolean) => {
+    if (!target || !pReview) return;
+    const current = getEditableText(target);
+    if (current !== pReview.base) {
+      setError('The text changed since it was proofread. Run Proofread again.');
+      return;
+    }
+    const accepted = pReview.ranges.filter((_, i) => pReview.decisions[i] === 'accepted' || (acceptRemaining && pReview.decisions[i] === 'pending'));
+    if (!accepted.length) return;
+    if (!reportApply(await applyTextEdits(target, pReview.base, accepted, false))) return;
+    lastProofreadTextRef.current = applyRanges(pReview.base, accepted);
+    setPReview(null);
+    setPResult('');
+    try { document.dispatchEvent(new CustomEvent('gx:clear')); } catch {}
+    updatePosition();
+  };
+
   // Simple, reusable placement function to keep panel beside target and within viewport
   const updatePopupPlacement = (measureAfterFrame = true, force = false) => {
     if (!open || !target) return;
@@ -556,10 +1034,10 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
     const margin = MARGIN;
     const allowedMaxW = Math.min(PANEL_MAX_W, window.innerWidth - margin * 2);
     // Prefer at least the target width for better readability
-    const initialW = Math.max(PANEL_MIN_W, Math.min(allowedMaxW, Math.max((target as HTMLElement).getBoundingClientRect().width, 280)));
+    const initialW = Math.max(PANEL_MIN_W, Math.min(allowedMaxW, Math.max(getEditorAdapter(target).root.getBoundingClientRect().width, 280)));
     const panelWidth = initialW;
     setPanelW(panelWidth);
-    const rect = target.getBoundingClientRect();
+    const rect = getEditorAdapter(target).root.getBoundingClientRect();
 
     const recompute = (measuredH?: number) => {
   const estH = measuredH ?? 320;
@@ -649,49 +1127,191 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
     try { (document.body.style as any).userSelect = 'none'; } catch {}
   };
 
-  const runRewrite = async () => {
+  // Page context for Write/Rewrite when enabled; without a selection a rewrite covers the whole
+  // field, so there is no surrounding text to add
+  const pageContextFor = (surrounding: boolean) =>
+    settings.usePageContext && target ? formatWritingContext(collectWritingContext(target, surrounding)) : '';
+
+  // A preset brings its own tone/length (shown in the selects afterwards) and instruction
+  const runRewrite = async (preset?: RewritePreset) => {
     if (!target) return;
+    const controller = beginRequest('rewrite');
+    const { tone, length, context } = preset ?? { tone: rwTone, length: rwLength };
+    if (preset) { setRwTone(tone); setRwLength(length); }
     setRwLoading(true); setError(null); setRwResult('');
     try {
-      const base = getSelectionText(target) || (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ? target.value : target.innerText);
-      const response = await callInpage<string>('rewrite', { text: base, tone: rwTone, length: rwLength });
+      const full = getEditableText(target);
+      const source = sourceRange(target);
+      const base = source.text;
+      rwSourceRef.current = source;
+      setRwBase(base);
+      rememberRewrite({ tone, length, context });
+      const language = await fieldLanguage(target, full);
+      const response = await callModel<string>(
+        'rewrite',
+        { text: base, tone, length, context, pageContext: pageContextFor(base !== full), language, stream: true },
+        { onPartial: (partial) => setRwResult(partial), signal: controller.signal }
+      );
       setRwResult(response);
+      recordUsage('rewrite');
     } catch (e: any) {
-      setError(e.message || String(e));
+      if (!isCancelError(e)) setError(e.message || String(e));
     } finally {
+      if (!endRequest('rewrite', controller)) return;
       setRwLoading(false);
       updatePopupPlacement(true);
     }
   };
 
-  const applyRewrite = () => {
-    if (!target || !rwResult) return;
-    const selected = getSelectionText(target);
-    if (selected) replaceSelection(target, rwResult); else replaceWhole(target, rwResult);
+  const applyRewrite = async () => {
+    if (!target || !rwResult || !rwSourceRef.current) return;
+    reportApply(await replaceSource(target, rwSourceRef.current, rwResult));
+  };
+
+  const runTranslate = async () => {
+    if (!target) return;
+    const controller = beginRequest('translate');
+    setTrLoading(true); setError(null); setTrResult('');
+    try {
+      const source = sourceRange(target);
+      const text = source.text;
+      trSourceRef.current = source;
+      const language = await fieldLanguage(target, getEditableText(target));
+      if (language === trTargetLanguage) {
+        setError(`The text is already in ${languageName(language)}. Pick its language above if detection got it wrong.`);
+        return;
+      }
+      const response = await callModel<string>(
+        'translate',
+        { text, language, targetLanguage: trTargetLanguage, stream: true },
+        { onPartial: (partial) => setTrResult(partial), signal: controller.signal }
+      );
+      setTrResult(response);
+      recordUsage('translate');
+    } catch (e: any) {
+      if (!isCancelError(e)) setError(e.message || String(e));
+    } finally {
+      if (!endRequest('translate', controller)) return;
+      setTrLoading(false);
+      updatePopupPlacement(true);
+    }
+  };
+
+  const applyTranslate = async () => {
+    if (!target || !trResult || !trSourceRef.current) return;
+    reportApply(await replaceSource(target, trSourceRef.current, trResult));
+  };
+
+  const runSummarize = async () => {
+    if (!target) return;
+    const controller = beginRequest('summarize');
+    setSmLoading(true); setError(null); setSmResult('');
+    try {
+      const source = sourceRange(target);
+      const text = source.text;
+      smSourceRef.current = source;
+      const language = await fieldLanguage(target, getEditableText(target));
+      const response = await callModel<string>(
+        'summarize',
+        { text, type: smType, length: smLength, language, stream: true },
+        { onPartial: (partial) => setSmResult(partial), signal: controller.signal }
+      );
+      setSmResult(response);
+      recordUsage('summarize');
+    } catch (e: any) {
+      if (!isCancelError(e)) setError(e.message || String(e));
+    } finally {
+      if (!endRequest('summarize', controller)) return;
+      setSmLoading(false);
+      updatePopupPlacement(true);
+    }
+  };
+
+  const applySummary = async (mode: 'replace' | 'top') => {
+    if (!target || !smResult) return;
+    if (mode === 'top') {
+      reportApply(await insertAt(target, 0, smResult + '\n\n'));
+      return;
+    }
+    if (!smSourceRef.current) return;
+    reportApply(await replaceSource(target, smSourceRef.current, smResult));
+  };
+
+  const runAsk = async (instruction: string = askInstruction) => {
+    if (!target || !instruction.trim()) return;
+    const controller = beginRequest('ask');
+    setAskLoading(true); setError(null); setAskResult('');
+    try {
+      const source = sourceRange(target);
+      const text = source.text;
+      askSourceRef.current = source;
+      setAskBase(text);
+      const language = await fieldLanguage(target, getEditableText(target));
+      const response = await callModel<string>(
+        'ask',
+        { text, instruction, language, stream: true },
+        { onPartial: (partial) => setAskResult(partial), signal: controller.signal }
+      );
+      setAskResult(response);
+      recordUsage('ask');
+    } catch (e: any) {
+      if (!isCancelError(e)) setError(e.message || String(e));
+    } finally {
+      if (!endRequest('ask', controller)) return;
+      setAskLoading(false);
+      updatePopupPlacement(true);
+    }
+  };
+
+  const applyAsk = async (mode: 'replace' | 'insert') => {
+    const source = askSourceRef.current;
+    if (!target || !askResult || !source) return;
+    if (mode === 'insert') {
+      reportApply(await insertAfterSource(target, source, '\n\n' + askResult));
+      return;
+    }
+    reportApply(await replaceSource(target, source, askResult));
   };
 
   const runWrite = async () => {
+    const controller = beginRequest('write');
     setWLoading(true); setError(null); setWResult('');
+    // Insert replaces the selection captured when the bubble was clicked, so diff against that
+    const saved = lastSelRef.current;
+    setWBase(
+      saved?.kind === 'input' && (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) ? target.value.slice(saved.start, saved.end)
+        : saved?.kind === 'ce' ? saved.range.toString()
+        : ''
+    );
     try {
-      const response = await callInpage<string>('write', { prompt: wPrompt, tone: wTone, length: wLength });
+      // An empty field has nothing to detect from; the prompt's language is the next best guess
+      const language = target
+        ? await fieldLanguage(target, getEditableText(target).trim() ? getEditableText(target) : wPrompt)
+        : (await preferredLanguages())[0];
+      const response = await callModel<string>(
+        'write',
+        { prompt: wPrompt, tone: wTone, length: wLength, pageContext: pageContextFor(true), language, stream: true },
+        { onPartial: (partial) => setWResult(partial), signal: controller.signal }
+      );
       setWResult(response);
-    } catch (e: any) { setError(e.message || String(e)); }
-    finally { setWLoading(false); updatePopupPlacement(true); }
+      recordUsage('write');
+    } catch (e: any) { if (!isCancelError(e)) setError(e.message || String(e)); }
+    finally {
+      if (!endRequest('write', controller)) return;
+      setWLoading(false); updatePopupPlacement(true);
+    }
   };
 
-  const applyWrite = () => {
+  const applyWrite = async () => {
     if (!target || !wResult) return;
     const saved = lastSelRef.current;
     if (saved) {
       if (saved.kind === 'input' && (target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement)) {
         const start = Math.max(0, Math.min(saved.start, target.value.length));
         const end = Math.max(0, Math.min(saved.end, target.value.length));
-        const before = target.value.slice(0, start);
-        const after = target.value.slice(end);
-        target.value = before + wResult + after;
-        const caret = before.length + wResult.length;
-        target.setSelectionRange(caret, caret);
-        target.dispatchEvent(new Event('input', { bubbles: true }));
+        target.focus();
+        target.setSelectionRange(start, end);
+        reportApply(await replaceSelection(target, wResult));
         return;
       }
       if (saved.kind === 'ce' && target.isContentEditable) {
@@ -700,20 +1320,46 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
           const sel = document.getSelection();
           sel?.removeAllRanges();
           if (saved.range) sel?.addRange(saved.range);
-          const range = sel?.rangeCount ? sel.getRangeAt(0) : null;
-          if (range) {
-            range.deleteContents();
-            range.insertNode(document.createTextNode(wResult));
-            range.collapse(false);
-            return;
-          }
         } catch {}
       }
     }
-    // Fallback
-    replaceSelection(target, wResult);
+    // Insert at the restored selection (or wherever the caret is now)
+    reportApply(await replaceSelection(target, wResult));
   };
 
+  // "Use page context" toggle (a global setting) with a preview of exactly what would be sent
+  const renderContextToggle = (surrounding: boolean) => (
+    <>
+      <div style={rowStyle}>
+        <label style={labelStyle}>
+          <input type="checkbox" checked={settings.usePageContext} onChange={(e) => updateSettings({ usePageContext: e.target.checked })} /> Use page context
+        </label>
+        {settings.usePageContext && (
+          <button style={contextPreview ? viewActiveStyle : viewStyle} onClick={() => setContextPreview((v) => !v)}>Preview</button>
+        )}
+      </div>
+      {settings.usePageContext && contextPreview && (
+        <pre style={contextPreviewStyle}>{pageContextFor(surrounding) || 'Nothing to send from this page.'}</pre>
+      )}
+    </>
+  );
+
+  // Result area: editable text, or a read-only word diff against the source text. The diff is computed
+  // once the output is complete: redoing it for every streamed chunk would stall the page on long text.
+  const renderViewToggle = () => (
+    <div style={rowStyle}>
+      <label style={labelStyle}> View: </label>
+      <button style={resultView === 'text' ? viewActiveStyle : viewStyle} onClick={() => setResultView('text')}>Edit</button>
+      <button style={resultView === 'inline' ? viewActiveStyle : viewStyle} onClick={() => setResultView('inline')}>Inline diff</button>
+      <button style={resultView === 'split' ? viewActiveStyle : viewStyle} onClick={() => setResultView('split')}>Side by side</button>
+    </div>
+  );
+  const renderResult = (before: string, after: string, onChange: (v: string) => void, rows: number, streaming: boolean) => (
+    resultView === 'text' || streaming
+      ? <textarea style={textareaStyle} rows={rows} value={after} readOnly={streaming} onChange={(e)=>onChange(e.target.value)} />
+      : <DiffView before={before} after={after} mode={resultView} fontSize={SMALL_FONT} />
+  );
+
   return (
     <div style={{ position: 'absolute', top: position.top, left: position.left, zIndex: 2147483647 }}>
       <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
@@ -734,8 +1380,9 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
                 e.preventDefault();
                 e.stopPropagation();
                 try { document.dispatchEvent(new CustomEvent('gx:clear')); } catch {}
-                // Proactively dispose models in this page to free RAM
-                try { callInpage('dispose', {}); } catch {}
+                // Proactively dispose models in this page to free RAM (shared-host models are
+                // used by other tabs and left to the host's idle timer)
+                try { if (inpageInjected()) callInpage('dispose', {}); } catch {}
                 onDisable();
                 setOpen(false);
               }}
@@ -751,12 +1398,68 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
               <button style={tab === 'proofread' ? tabActiveStyle : tabStyle} onClick={() => setTab('proofread')}>Proofread</button>
               <button style={tab === 'rewrite' ? tabActiveStyle : tabStyle} onClick={() => setTab('rewrite')}>Rewrite</button>
               <button style={tab === 'write' ? tabActiveStyle : tabStyle} onClick={() => setTab('write')}>Write</button>
+              <button style={tab === 'translate' ? tabActiveStyle : tabStyle} onClick={() => setTab('translate')}>Translate</button>
+              <button style={tab === 'summarize' ? tabActiveStyle : tabStyle} onClick={() => setTab('summarize')}>Summarize</button>
+              <button style={tab === 'ask' ? tabActiveStyle : tabStyle} onClick={() => setTab('ask')}>Ask</button>
+            </div>
+            <div style={{ ...rowStyle, marginBottom: 8 }}>
+              <label style={labelStyle}> Language: </label>
+              <select style={selectStyle} value={langChoice} onChange={(e)=>changeLanguage(e.target.value)}>
+                <option value="auto">Auto{detectedLang ? ` (${languageName(detectedLang)})` : ''}</option>
+                {[...settings.preferredLanguages, ...Object.keys(LANGUAGE_NAMES).filter((l) => !settings.preferredLanguages.includes(l))].map((l) => (
+                  <option key={l} value={l}>{languageName(l)}</option>
+                ))}
+              </select>
             </div>
             {tab === 'proofread' && (
               <div style={sectionStyle}>
                 {pLoading && <div style={mutedStyle}>Checking…</div>}
-                {!pLoading && pResult && <>
-                  <textarea style={textareaStyle} rows={4} value={pResult} onChange={(e)=>setPResult(e.target.value)} />
+                {!pLoading && pReview && <>
+                  {renderViewToggle()}
+                  {resultView !== 'text' && <DiffView before={pReview.base} after={applyRanges(pReview.base, pReview.ranges.filter((_, i) => pReview.decisions[i] !== 'rejected'))} mode={resultView} fontSize={SMALL_FONT} />}
+                  <div style={correctionListStyle}>
+                    {pReview.ranges.map((r, i) => {
+                      const decision = pReview.decisions[i];
+                      return (
+                        <div key={`${r.start}-${r.end}`} style={decision === 'pending' ? correctionItemStyle : { ...correctionItemStyle, opacity: 0.55 }}>
+                          <div>
+                            <span style={correctionOriginalStyle}>{pReview.base.slice(r.start, r.end) || '∅'}</span>
+                            {' → '}
+                            <span style={correctionReplacementStyle}>{r.replacement || '∅'}</span>
+                          </div>
+                          {(r.type || r.explanation) && (
+                            <div style={mutedStyle}>{[r.type, r.explanation].filter(Boolean).join(' · ')}</div>
+                          )}
+                          <div style={rowStyle}>
+                            <button
+                              style={decision === 'accepted' ? { ...secondaryBtn, background: '#dcfce7' } : secondaryBtn}
+                              onClick={() => decideCorrection(i, decision === 'accepted' ? 'pending' : 'accepted')}
+                            >Accept</button>
+                            <button
+                              style={decision === 'rejected' ? { ...secondaryBtn, background: '#fee2e2' } : secondaryBtn}
+                              onClick={() => decideCorrection(i, decision === 'rejected' ? 'pending' : 'rejected')}
+                            >Reject</button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div style={rowStyle}>
+                    <button
+                      disabled={!pReview.decisions.includes('accepted')}
+                      onClick={() => applyReviewed(false)}
+                      style={secondaryBtn}
+                    >Apply accepted ({pReview.decisions.filter((d) => d === 'accepted').length})</button>
+                    <button
+                      disabled={!pReview.decisions.some((d) => d !== 'rejected')}
+                      onClick={() => applyReviewed(true)}
+                      style={primaryBtn}
+                    >Accept all remaining</button>
+                  </div>
+                </>}
+                {!pLoading && !pReview && pResult && <>
+                  {renderViewToggle()}
+                  {renderResult(pBase, pResult, setPResult, 4, false)}
                   <button onClick={applyProofread} style={secondaryBtn}>Apply</button>
                 </>}
               </div>
@@ -777,10 +1480,83 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
                     <option value="longer">Longer</option>
                   </select>
                 </div>
-                <button disabled={rwLoading} onClick={runRewrite} style={primaryBtn}>Rewrite selection or field</button>
+                {settings.rewritePresets.length > 0 && (
+                  <div style={{ ...rowStyle, flexWrap: 'wrap' }}>
+                    {settings.rewritePresets.map((preset) => (
+                      <button key={preset.id} disabled={rwLoading} style={viewStyle} title={preset.context || undefined} onClick={() => runRewrite(preset)}>{preset.name.trim() || 'Untitled preset'}</button>
+                    ))}
+                  </div>
+                )}
+                {renderContextToggle(!!target && !!getSelectionText(target))}
+                <button disabled={rwLoading} onClick={() => runRewrite()} style={primaryBtn}>Rewrite selection or field</button>
+                {rwLoading && !rwResult && <div style={mutedStyle}>Rewriting…</div>}
                 {rwResult && <>
-                  <textarea style={textareaStyle} rows={4} value={rwResult} onChange={(e)=>setRwResult(e.target.value)} />
-                  <button onClick={applyRewrite} style={secondaryBtn}>Replace</button>
+                  {renderViewToggle()}
+                  {renderResult(rwBase, rwResult, setRwResult, 4, rwLoading)}
+                  <button disabled={rwLoading} onClick={applyRewrite} style={secondaryBtn}>Replace</button>
+                </>}
+              </div>
+            )}
+            {tab === 'translate' && (
+              <div style={sectionStyle}>
+                <div style={rowStyle}>
+                  <label style={labelStyle}> To: </label>
+                  <select style={selectStyle} value={trTargetLanguage} onChange={(e)=>setTrTarget(e.target.value)}>
+                    {Object.keys(LANGUAGE_NAMES).map((l) => <option key={l} value={l}>{languageName(l)}</option>)}
+                  </select>
+                </div>
+                <button disabled={trLoading} onClick={runTranslate} style={primaryBtn}>Translate selection or field</button>
+                {trLoading && !trResult && <div style={mutedStyle}>Translating…</div>}
+                {trResult && <>
+                  <textarea style={textareaStyle} rows={4} value={trResult} readOnly={trLoading} onChange={(e)=>setTrResult(e.target.value)} />
+                  <button disabled={trLoading} onClick={applyTranslate} style={secondaryBtn}>Replace</button>
+                </>}
+              </div>
+            )}
+            {tab === 'summarize' && (
+              <div style={sectionStyle}>
+                <div style={rowStyle}>
+                  <label style={labelStyle}> Type: </label>
+                  <select style={selectStyle} value={smType} onChange={(e)=>setSmType(e.target.value as SummaryType)}>
+                    <option value="tldr">TL;DR</option>
+                    <option value="key-points">Key points</option>
+                    <option value="headline">Headline</option>
+                  </select>
+                  <label style={labelStyle}> Length: </label>
+                  <select style={selectStyle} value={smLength} onChange={(e)=>setSmLength(e.target.value as SummaryLength)}>
+                    <option value="short">Short</option>
+                    <option value="medium">Medium</option>
+                    <option value="long">Long</option>
+                  </select>
+                </div>
+                <button disabled={smLoading} onClick={runSummarize} style={primaryBtn}>Summarize selection or field</button>
+                {smLoading && !smResult && <div style={mutedStyle}>Summarizing…</div>}
+                {smResult && <>
+                  <textarea style={textareaStyle} rows={4} value={smResult} readOnly={smLoading} onChange={(e)=>setSmResult(e.target.value)} />
+                  <div style={rowStyle}>
+                    <button disabled={smLoading} onClick={() => applySummary('top')} style={secondaryBtn}>Insert summary at top</button>
+                    <button disabled={smLoading} onClick={() => applySummary('replace')} style={secondaryBtn}>Replace</button>
+                  </div>
+                </>}
+              </div>
+            )}
+            {tab === 'ask' && (
+              <div style={sectionStyle}>
+                <textarea placeholder="Tell Typerra what to do with the selection or field…" style={textareaStyle} rows={2} value={askInstruction} onChange={(e)=>setAskInstruction(e.target.value)} />
+                <div style={{ ...rowStyle, flexWrap: 'wrap' }}>
+                  {ASK_EXAMPLES.map((example) => (
+                    <button key={example} disabled={askLoading} style={viewStyle} onClick={() => { setAskInstruction(example); runAsk(example); }}>{example}</button>
+                  ))}
+                </div>
+                <button disabled={askLoading || !askInstruction.trim()} onClick={() => runAsk()} style={primaryBtn}>Ask Typerra</button>
+                {askLoading && !askResult && <div style={mutedStyle}>Thinking…</div>}
+                {askResult && <>
+                  {renderViewToggle()}
+                  {renderResult(askBase, askResult, setAskResult, 4, askLoading)}
+                  <div style={rowStyle}>
+                    <button disabled={askLoading} onClick={() => applyAsk('replace')} style={secondaryBtn}>Replace</button>
+                    <button disabled={askLoading} onClick={() => applyAsk('insert')} style={secondaryBtn}>Insert below</button>
+                  </div>
                 </>}
               </div>
             )}
@@ -801,14 +1577,49 @@ function Popover({ target, onDisable }: { target: HTMLElement | null; onDisable:
                     <option value="long">Long</option>
                   </select>
                 </div>
+                {renderContextToggle(true)}
                 <button disabled={wLoading || !wPrompt} onClick={runWrite} style={primaryBtn}>Generate</button>
+                {wLoading && !wResult && <div style={mutedStyle}>Writing…</div>}
                 {wResult && <>
-                  <textarea style={textareaStyle} rows={6} value={wResult} onChange={(e)=>setWResult(e.target.value)} />
-                  <button onClick={applyWrite} style={secondaryBtn}>Insert</button>
+                  {wBase && renderViewToggle()}
+                  {wBase ? renderResult(wBase, wResult, setWResult, 6, wLoading) : <textarea style={textareaStyle} rows={6} value={wResult} readOnly={wLoading} onChange={(e)=>setWResult(e.target.value)} />}
+                  <button disabled={wLoading} onClick={applyWrite} style={secondaryBtn}>Insert</button>
                 </>}
               </div>
             )}
+            {Object.entries(modelStatus).map(([key, m]) => {
+              const label = `${MODEL_LABELS[m.model] || m.model} (${m.language.replace('>', ' → ')})`;
+              return m.status === 'downloading' ? (
+                <div key={key} style={mutedStyle}>
+                  Downloading {label} model… {Math.round((m.progress || 0) * 100)}%
+                  <div style={progressTrackStyle}><div style={{ ...progressBarStyle, width: `${Math.round((m.progress || 0) * 100)}%` }} /></div>
+                </div>
+              ) : (
+                <div key={key} style={errorStyle}>{label} unavailable: {m.reason || 'unknown reason'}</div>
+              );
+            })}
             {error && <div style={errorStyle}>{error}</div>}
+            {(canUndo(target) || canRedo(target)) && (
+              <div style={{ ...rowStyle, marginTop: 8 }}>
+                <button
+                  disabled={!canUndo(target)}
+                  onClick={() => { if (target && !undoEdit(target)) setError('The field changed since the last Typerra edit; nothing to undo.'); }}
+                  style={secondaryBtn}
+                  title={shortcuts.undo || undefined}
+                >↶ Undo last Typerra change</button>
+                <button
+                  disabled={!canRedo(target)}
+                  onClick={() => { if (target) redoEdit(target); }}
+                  style={secondaryBtn}
+                  title={shortcuts.redo || undefined}
+                >↷ Redo</button>
+              </div>
+            )}
+            <button
+              onClick={() => { setOpen(false); onIgnoreField(); }}
+              style={ignoreFieldStyle}
+              title="Hide Typerra on this field on this site. Clear ignored fields from the extension popup."
+            >Never on this field</button>
           </div>
         )}
       </div>
@@ -834,7 +1645,7 @@ const panelStyle: React.CSSProperties = {
   boxSizing: 'border-box', fontFamily: '-apple-system, system-ui, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
   fontSize: BASE_FONT
 };
-const tabsStyle: React.CSSProperties = { display: 'flex', gap: 6, marginBottom: 8 };
+const tabsStyle: React.CSSProperties = { display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 8 };
 const tabStyle: React.CSSProperties = { flex: 1, padding: '4px 8px', background: '#f1f5f9', border: 'none', borderRadius: 8, cursor: 'pointer', fontSize: SMALL_FONT };
 const tabActiveStyle: React.CSSProperties = { ...tabStyle, background: '#dbeafe', fontWeight: 600 };
 const sectionStyle: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: 6 };
@@ -842,8 +1653,18 @@ const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', g
 const textareaStyle: React.CSSProperties = { width: '100%', borderRadius: 8, border: '1px solid #e5e7eb', padding: 8, boxSizing: 'border-box', fontSize: SMALL_FONT, lineHeight: 1.4 };
 const primaryBtn: React.CSSProperties = { padding: '6px 10px', background: '#2563eb', color: '#fff', border: 'none', borderRadius: 8, cursor: 'pointer', fontSize: SMALL_FONT } as any;
 const secondaryBtn: React.CSSProperties = { padding: '6px 10px', background: '#f3f4f6', color: '#0f172a', border: '1px solid #e5e7eb', borderRadius: 8, cursor: 'pointer', fontSize: SMALL_FONT } as any;
+const viewStyle: React.CSSProperties = { padding: '2px 6px', background: '#f1f5f9', border: 'none', borderRadius: 6, cursor: 'pointer', fontSize: SMALL_FONT };
+const viewActiveStyle: React.CSSProperties = { ...viewStyle, background: '#dbeafe', fontWeight: 600 };
+const correctionListStyle: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: 6 };
+const correctionItemStyle: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: 4, padding: 6, border: '1px solid #e5e7eb', borderRadius: 8, fontSize: SMALL_FONT };
+const correctionOriginalStyle: React.CSSProperties = { color: '#b91c1c', textDecoration: 'line-through' };
+const correctionReplacementStyle: React.CSSProperties = { color: '#15803d', fontWeight: 600 };
 const errorStyle: React.CSSProperties = { color: '#b91c1c', fontSize: SMALL_FONT };
 const mutedStyle: React.CSSProperties = { color: '#64748b', fontSize: SMALL_FONT };
+const progressTrackStyle: React.CSSProperties = { height: 4, marginTop: 2, borderRadius: 2, background: '#e5e7eb', overflow: 'hidden' };
+const progressBarStyle: React.CSSProperties = { height: '100%', background: '#3b82f6', transition: 'width 0.2s' };
+const contextPreviewStyle: React.CSSProperties = { margin: 0, maxHeight: 140, overflow: 'auto', whiteSpace: 'pre-wrap', background: '#f8fafc', border: '1px solid #e5e7eb', borderRadius: 8, padding: 6, color: '#475569', fontSize: SMALL_FONT, fontFamily: 'inherit' };
+const ignoreFieldStyle: React.CSSProperties = { alignSelf: 'flex-start', marginTop: 8, padding: 0, background: 'none', border: 'none', color: '#64748b', cursor: 'pointer', fontSize: SMALL_FONT, textDecoration: 'underline' };
 const dragBarStyle: React.CSSProperties = {
   cursor: 'move',
   width: '100%',
@@ -875,35 +1696,78 @@ const selectStyle: React.CSSProperties = {
 
 function App() {
   const [enabled, setEnabled] = useState<boolean>(true);
-  const [realtimeEnabled, setRealtimeEnabled] = useState<boolean>(true);
-  const [target, setTarget] = useState<HTMLElement | null>(getActiveEditable());
+  // Settings from the background worker (defaults until it answers), with this site's rules applied
+  const [globalSettings, setGlobalSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [site, setSite] = useState<SiteState>({});
+  const settings = React.useMemo(() => applySiteRules(globalSettings, site), [globalSettings, site]);
+  const settingsRef = useRef<Settings>(DEFAULT_SETTINGS);
+  settingsRef.current = settings;
+  const siteRef = useRef<SiteState>(site);
+  siteRef.current = site;
+  const realtimeEnabled = settings.realtimeProofread;
+  const shortcuts = settings.shortcuts;
+  const pageIdleMs = MEMORY_POLICIES[settings.memoryPolicy]?.pageIdleMs ?? 0;
+  // Opted-out, sensitive and ignored fields never become the target: no bubble, no realtime underlines
+  const allowedEditable = () => {
+    const el = getActiveEditable();
+    return el && isFieldAllowed(el, siteRef.current.ignoredFields) ? el : null;
+  };
+  const [target, setTarget] = useState<HTMLElement | null>(allowedEditable);
   const panelOpenRef = useRef<boolean>(false);
   const overlayRef = useRef<ReturnType<typeof createUnderlineOverlay> | null>(null);
   const debounceRef = useRef<number | null>(null);
   const inflightRef = useRef<number>(0);
+  const realtimeAbortRef = useRef<AbortController | null>(null);
   const lastTextRef = useRef<string>('');
   const lastRangesRef = useRef<ProofreadRange[]>([]);
+  // Last model result, carried along as the text changes; lastRangesRef adds the local checks to it
+  const modelRangesRef = useRef<{ text: string; ranges: ProofreadRange[] }>({ text: '', ranges: [] });
+  // Ranges the user chose "Ignore" for in this field, carried along the same way
+  const ignoredOnceRef = useRef<{ text: string; ranges: ProofreadRange[] }>({ text: '', ranges: [] });
+  const [dictionary, setDictionary] = useState<Dictionary>({ words: [], ignoreRules: [] });
+  const dictionaryRef = useRef<Dictionary>(dictionary);
+  dictionaryRef.current = dictionary;
   const lastProofreadAtRef = useRef<number>(0);
-  const [suggest, setSuggest] = useState<{ open: boolean; top: number; left: number; text: string; range: { start: number; end: number } | null }>({ open: false, top: 0, left: 0, text: '', range: null });
-  const CLIENT_IDLE_DISPOSE_MS = 30_000; // if UI is inactive and no target for 30s, dispose models in this page
+  // range: the underlined range under the caret; word: what "Add to dictionary" adds (null hides it)
+  const [suggest, setSuggest] = useState<{ open: boolean; top: number; left: number; text: string; range: ProofreadRange | null; word: string | null }>({ open: false, top: 0, left: 0, text: '', range: null, word: null });
+  // Progress/error pill for context menu actions, shown above the field
+  const [actionStatus, setActionStatus] = useState<{ text: string; error: boolean; top: number; left: number } | null>(null);
+  const actionAbortRef = useRef<AbortController | null>(null);
 
   // Per-tab only: start enabled by default; disabling via × affects only this tab instance
   useEffect(() => {
     setEnabled(true);
   }, []);
 
+  // If realtime is turned off (globally or for this site), free all models in this page without
+  // injecting inpage if it's not present
+  useEffect(() => {
+    if (realtimeEnabled) return;
+    try {
+      if (inpageInjected()) {
+        callInpage('dispose', {});
+      }
+    } catch {}
+  }, [realtimeEnabled]);
+
+  useEffect(() => {
+    const limits = MEMORY_POLICIES[settings.memoryPolicy] ?? MEMORY_POLICIES.balanced;
+    configureInpage({ modelIdleMs: limits.modelIdleMs, hiddenIdleMs: limits.hiddenIdleMs });
+  }, [settings.memoryPolicy]);
+
   // Proactive page-level idle disposal: if there's no active target, no overlay, and no UI open
-  // for a while, dispose models in this page context to minimize RAM footprint.
+  // for a while (per the memory policy), dispose models in this page context to minimize RAM footprint.
   useEffect(() => {
+    if (!pageIdleMs) return;
     const t = window.setInterval(() => {
       try {
         const now = Date.now();
         const noTarget = !target;
         const noUI = !panelOpenRef.current && !suggest.open;
         const noOverlay = !overlayRef.current;
-        const longSinceProofread = now - (lastProofreadAtRef.current || 0) > CLIENT_IDLE_DISPOSE_MS;
+        const longSinceProofread = now - (lastProofreadAtRef.current || 0) > pageIdleMs;
         if (noTarget && noUI && noOverlay && longSinceProofread) {
-          if (document.getElementById('typerra-inpage')) {
+          if (inpageInjected()) {
             // Best-effort; do not inject inpage if not present
             callInpage('dispose', {} as any).catch(()=>{});
           }
@@ -911,35 +1775,41 @@ function App() {
       } catch {}
     }, 10_000);
     return () => { try { window.clearInterval(t); } catch {} };
-  }, [target, suggest.open]);
+  }, [target, suggest.open, pageIdleMs]);
 
-  // Global realtime proofread toggle via storage (affects all tabs)
+  // Global settings and this site's rules, owned by the background worker
   useEffect(() => {
-    try {
-      chrome.storage.sync.get(['realtimeProofread'], (res) => {
-        if (typeof res.realtimeProofread === 'boolean') setRealtimeEnabled(res.realtimeProofread);
-      });
-    } catch {}
-    const onStorage = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
-      if (area === 'sync' && changes.realtimeProofread) {
-        const next = !!changes.realtimeProofread.newValue;
-        setRealtimeEnabled(next);
-        // If realtime is turned off, free all models in this page without injecting inpage if it's not present
-        if (!next) {
-          try {
-            if (document.getElementById('typerra-inpage')) {
-              callInpage('dispose', {});
-            }
-          } catch {}
-        }
+    getState().then((state) => {
+      if (!state) return;
+      setGlobalSettings(state.settings);
+      setSite(state.site);
+      setDictionary(state.dictionary);
+    });
+    const onSettings = (e: CustomEvent<Settings>) => setGlobalSettings(e.detail);
+    const onDictionary = (e: CustomEvent<Dictionary>) => setDictionary(e.detail);
+    const onSite = (e: CustomEvent<SiteState>) => {
+      setSite(e.detail);
+      const off = e.detail.mode === 'off';
+      setEnabled(!off);
+      if (off) {
+        try { document.dispatchEvent(new CustomEvent('gx:clear')); } catch {}
       }
     };
-    try { chrome.storage.onChanged.addListener(onStorage); } catch {}
+    document.addEventListener('gx:settings' as any, onSettings as any);
+    document.addEventListener('gx:site' as any, onSite as any);
+    document.addEventListener('gx:dictionary' as any, onDictionary as any);
     return () => {
-      try { chrome.storage.onChanged.removeListener(onStorage); } catch {}
+      document.removeEventListener('gx:settings' as any, onSettings as any);
+      document.removeEventListener('gx:site' as any, onSite as any);
+      document.removeEventListener('gx:dictionary' as any, onDictionary as any);
     };
   }, []);
 
+  // A field ignored here (or in another tab) loses the bubble right away
+  useEffect(() => {
+    if (target && !isFieldAllowed(target, site.ignoredFields)) setTarget(null);
+  }, [site.ignoredFields]);
+
   useEffect(() => {
   const root = document.getElementById('typerra-root');
 
@@ -947,7 +1817,7 @@ function App() {
       const t = e.target as Node | null;
       // If focus is inside our own UI, keep current target so GX stays for click/panel
       if (root && t && root.contains(t)) return;
-      const editable = getActiveEditable();
+      const editable = allowedEditable();
       if (!editable && panelOpenRef.current) return; // keep while panel is open
       setTarget(editable ?? null);
     };
@@ -957,7 +1827,7 @@ function App() {
       const anchor = sel?.anchorNode || null;
       // If selection is inside our UI, keep current target
       if (root && anchor && root.contains(anchor)) return;
-      const editable = getActiveEditable();
+      const editable = allowedEditable();
       if (!editable && panelOpenRef.current) return;
       setTarget(editable ?? null);
     };
@@ -967,7 +1837,7 @@ function App() {
       setTimeout(() => {
         const ae = document.activeElement as HTMLElement | null;
         if (root && ae && root.contains(ae)) return; // interacting with our UI; keep GX
-        const editable = getActiveEditable();
+        const editable = allowedEditable();
         if (!editable && panelOpenRef.current) return;
         setTarget(editable ?? null);
       }, 0);
@@ -991,54 +1861,90 @@ function App() {
     };
   }, []);
 
+  // Only one realtime proofread runs at a time; a newer one aborts the previous in the page
+  function beginRealtime(): AbortController {
+    realtimeAbortRef.current?.abort();
+    const controller = new AbortController();
+    realtimeAbortRef.current = controller;
+    return controller;
+  }
+  function abortRealtime() {
+    realtimeAbortRef.current?.abort();
+    realtimeAbortRef.current = null;
+  }
+
+  // Draw the model's ranges (moved to match edits made since) plus the local checks for `text`, minus
+  // what the user ignored or added to the dictionary. Cheap enough for every keystroke, so underlines
+  // follow typing even before the model answers.
+  function renderRanges(text: string) {
+    const overlay = overlayRef.current;
+    if (!overlay || !target) return;
+    const model = modelRangesRef.current;
+    const modelRanges = carryRanges(model.ranges, model.text, text);
+    modelRangesRef.current = { text, ranges: modelRanges };
+    const once = ignoredOnceRef.current;
+    const ignoredOnce = carryRanges(once.ranges, once.text, text, true);
+    ignoredOnceRef.current = { text, ranges: ignoredOnce };
+    const local = settingsRef.current.localChecks ? localProofread(text, knownFieldLanguage(target) ?? guessLanguage(text)) : [];
+    const ranges = filterIgnored(text, mergeRanges(modelRanges, local), dictionaryRef.current, ignoredOnce);
+    lastTextRef.current = text;
+    lastRangesRef.current = ranges;
+    overlay.render(text, ranges);
+    overlay.applyComputedStyles();
+    overlay.syncScroll();
+  }
+
   // Real-time proofread underline: run after pauses or word boundaries and draw red waves
   useEffect(() => {
-    if (!enabled || !realtimeEnabled || !target || !isEditable(target)) {
+    if (!enabled || !realtimeEnabled || !target || !(isEditable(target) || isDocsEditor(target))) {
       // cleanup previous overlay if any
       if (overlayRef.current) { overlayRef.current.unmount(); overlayRef.current = null; }
       return;
     }
 
     // Create/attach overlay for current target
-    const overlay = createUnderlineOverlay(target);
+    const overlay = createUnderlineOverlay(getEditorAdapter(target));
     overlay.attach();
     overlayRef.current = overlay;
+    modelRangesRef.current = { text: '', ranges: [] };
+    ignoredOnceRef.current = { text: '', ranges: [] };
+    const stopDocsObserver = isDocsEditor(target) ? observeDocsChanges(target) : null;
 
     const schedule = (immediate = false) => {
       if (debounceRef.current) { window.clearTimeout(debounceRef.current); debounceRef.current = null; }
-      const delay = immediate ? 0 : 350;
+      // Any pending proofread is for text the user has since changed
+      abortRealtime();
+      const { realtimeDebounceMs, maxRealtimeChars, minIntervalMs } = settingsRef.current;
+      const delay = immediate ? 0 : realtimeDebounceMs;
       debounceRef.current = window.setTimeout(async () => {
         const text = getEditableText(target);
         // Skip realtime for very large fields to avoid memory/CPU spikes
-        if (text.length > MAX_REALTIME_CHARS) {
+        if (text.length > maxRealtimeChars) {
           if (overlayRef.current) { overlayRef.current.unmount(); overlayRef.current = null; }
           return;
         }
         // Throttle requests
         const now = Date.now();
         const elapsed = now - (lastProofreadAtRef.current || 0);
-        if (elapsed < MIN_INTERVAL_MS && !immediate) {
+        if (elapsed < minIntervalMs && !immediate) {
           // reschedule to the next window
-          debounceRef.current = window.setTimeout(() => schedule(true), MIN_INTERVAL_MS - elapsed) as any;
+          debounceRef.current = window.setTimeout(() => schedule(true), minIntervalMs - elapsed) as any;
           return;
         }
         const token = ++inflightRef.current;
+        const controller = beginRealtime();
         try {
-          const res = await callInpage<ProofreadPayload>('proofread', { text }).catch((e)=>{
-            const msg = String(e?.message || e || '').toLowerCase();
+          const language = await fieldLanguage(target, text);
+          const res = await callModel<ProofreadPayload>('proofread', { text, language }, { signal: controller.signal }).catch((e)=>{
             // Swallow benign cancellations
-            if (msg.includes('cancel')) return { corrected: text, corrections: [], ranges: [], cancelled: true } as ProofreadPayload;
+            if (isCancelError(e)) return { corrected: text, corrections: [], ranges: [], cancelled: true } as ProofreadPayload;
             throw e;
           });
           if (token !== inflightRef.current) return; // canceled by newer request
           if (res?.cancelled) return; // benign cancel
-          const ranges = Array.isArray(res?.ranges) ? res.ranges! : [];
-          lastTextRef.current = text;
-          lastRangesRef.current = ranges;
+          modelRangesRef.current = { text, ranges: Array.isArray(res?.ranges) ? res.ranges! : [] };
           lastProofreadAtRef.current = Date.now();
-          overlay.render(text, ranges);
-          overlay.applyComputedStyles();
-          overlay.syncScroll();
+          renderRanges(getEditableText(target));
           // After render, update suggestion for current caret
           setTimeout(() => {
             try { updateSuggestionForCaret(); } catch {}
@@ -1052,7 +1958,9 @@ function App() {
     const onInput = (e: Event) => {
       const el = e.target as HTMLElement | null;
       if (!el || el !== target) return;
+      if (isSilentEdit()) return; // Typerra's own Apply asked not to re-run
       const value = getEditableText(target);
+      if (value.length <= settingsRef.current.maxRealtimeChars) renderRanges(value);
       const last = value.slice(-1);
       const boundary = /\s|[\.,!?;:]/.test(last);
       schedule(boundary);
@@ -1062,6 +1970,8 @@ function App() {
     };
 
   // initial
+  const initialText = getEditableText(target);
+  if (initialText.length <= settingsRef.current.maxRealtimeChars) renderRanges(initialText);
   schedule(true);
 
     target.addEventListener('input', onInput);
@@ -1071,9 +1981,16 @@ function App() {
     window.addEventListener('scroll', onLayout, true);
     window.addEventListener('resize', onLayout, true);
 
+    // Stop proofreading a tab the user switched away from
+    const onVisibility = () => { if (document.visibilityState === 'hidden') abortRealtime(); };
+    document.addEventListener('visibilitychange', onVisibility);
+
     return () => {
       if (debounceRef.current) { window.clearTimeout(debounceRef.current); debounceRef.current = null; }
       inflightRef.current++;
+      abortRealtime();
+      stopDocsObserver?.();
+      document.removeEventListener('visibilitychange', onVisibility);
       target.removeEventListener('input', onInput);
       target.removeEventListener('keyup', onKeyUp);
       window.removeEventListener('scroll', onLayout, true);
@@ -1084,31 +2001,10 @@ function App() {
     };
   }, [enabled, realtimeEnabled, target]);
 
-  // Utilities to compute caret offset within editable
+  // Caret offset within the editable, in the same coordinates as getEditableText
   function getCaretIndexInEditable(root: HTMLElement): number | null {
-    if (root instanceof HTMLInputElement || root instanceof HTMLTextAreaElement) {
-      const i = root.selectionStart;
-      return typeof i === 'number' ? i : null;
-    }
-    if (!root.isContentEditable) return null;
-    const sel = document.getSelection();
-    if (!sel || sel.rangeCount === 0 || !sel.isCollapsed) return null;
-    const range = sel.getRangeAt(0);
-    // ensure range is within root
-    if (!root.contains(range.startContainer)) return null;
-    let index = 0;
-    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, null);
-    let node: Node | null = walker.nextNode();
-    while (node) {
-      const text = (node.nodeValue || '');
-      if (node === range.startContainer) {
-        index += range.startOffset;
-        return index;
-      }
-      index += text.length;
-      node = walker.nextNode();
-    }
-    return index;
+    const sel = getEditorAdapter(root).getSelection();
+    return sel && sel.start === sel.end ? sel.start : null;
   }
 
   function updateSuggestionForCaret() {
@@ -1119,26 +2015,27 @@ function App() {
     if (idx == null) { if (suggest.open) setSuggest((s)=>({ ...s, open: false })); return; }
     const ranges = lastRangesRef.current || [];
     const r = ranges.find((rr) => idx >= rr.start && idx < rr.end);
-    if (!r || !r.replacement) { if (suggest.open) setSuggest((s)=>({ ...s, open: false })); return; }
+    if (!r) { if (suggest.open) setSuggest((s)=>({ ...s, open: false })); return; }
     const rect = overlayRef.current.getRectForRange(r.start, r.end) || overlayRef.current.getRectForIndex(idx);
     if (!rect) { if (suggest.open) setSuggest((s)=>({ ...s, open: false })); return; }
     const margin = 6;
     const bubbleTop = rect.top - 28 - margin; // above word
-    const bubbleLeft = clamp(rect.left, 8, window.innerWidth - 160 - 8);
-    setSuggest({ open: true, top: bubbleTop, left: bubbleLeft, text: r.replacement!, range: { start: r.start, end: r.end } });
+    const bubbleLeft = clamp(rect.left, 8, window.innerWidth - SUGGEST_MAX_W - 8);
+    setSuggest({ open: true, top: bubbleTop, left: bubbleLeft, text: r.replacement ?? '', range: r, word: dictionaryWordFor(text, r) });
   }
 
   async function proofreadNow() {
     if (!target || !overlayRef.current) return;
     const text = getEditableText(target);
+    const controller = beginRealtime();
+    // Local checks show right away, and are all there is when the model fails
+    renderRanges(text);
     try {
-      const res = await callInpage<ProofreadPayload>('proofread', { text });
-      const ranges = Array.isArray(res?.ranges) ? res.ranges! : [];
-      lastTextRef.current = text;
-      lastRangesRef.current = ranges;
-      overlayRef.current.render(text, ranges);
-      overlayRef.current.applyComputedStyles();
-      overlayRef.current.syncScroll();
+      const language = await fieldLanguage(target, text);
+      const res = await callModel<ProofreadPayload>('proofread', { text, language }, { signal: controller.signal });
+      if (res?.cancelled) return;
+      modelRangesRef.current = { text, ranges: Array.isArray(res?.ranges) ? res.ranges! : [] };
+      renderRanges(getEditableText(target));
       updateSuggestionForCaret();
     } catch {}
   }
@@ -1193,70 +2090,206 @@ function App() {
     return () => { document.removeEventListener('gx:clear' as any, onClear as any); };
   }, []);
 
+  // Whether a shortcut would do anything right now; combos that wouldn't are left to the page
+  const shortcutAppliesRef = useRef<(action: ShortcutAction) => boolean>(() => false);
+  shortcutAppliesRef.current = (action) => {
+    if (!target) return false;
+    switch (action) {
+      case 'accept-suggestion': return suggest.open && typeof suggest.range?.replacement === 'string';
+      case 'next-issue':
+      case 'prev-issue': return realtimeEnabled && !!overlayRef.current && lastRangesRef.current.length > 0;
+      case 'undo': return canUndo(target);
+      case 'redo': return canRedo(target);
+      default: return true;
+    }
+  };
+
+  // In-page shortcuts (rebindable in settings) become the same gx:command events that
+  // chrome.commands deliver through the background worker. Bubble-only sites get no key handling.
+  useEffect(() => {
+    if (!enabled || site.mode === 'bubble-only') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const combo = shortcutFromEvent(e);
+      if (!combo) return;
+      const action = (Object.keys(shortcuts) as ShortcutAction[]).find((a) => shortcuts[a] === combo);
+      if (!action || !shortcutAppliesRef.current(action)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      try { document.dispatchEvent(new CustomEvent('gx:command', { detail: action })); } catch {}
+    };
+    document.addEventListener('keydown', onKeyDown, true);
+    return () => { document.removeEventListener('keydown', onKeyDown, true); };
+  }, [enabled, shortcuts, site.mode]);
+
+  // Move the caret to the next/previous underlined range; the suggestion bubble follows the caret
+  function jumpToIssue(dir: 1 | -1) {
+    if (!target) return;
+    const adapter = getEditorAdapter(target);
+    if (adapter.getText() !== lastTextRef.current) return;
+    const ranges = [...(lastRangesRef.current || [])].sort((a, b) => a.start - b.start);
+    if (!ranges.length) return;
+    const caret = adapter.getSelection()?.start ?? 0;
+    const r = dir > 0
+      ? ranges.find((rr) => rr.start > caret) ?? ranges[0]
+      : [...ranges].reverse().find((rr) => rr.start < caret) ?? ranges[ranges.length - 1];
+    adapter.setSelection(r.start, r.start);
+  }
+
+  const onCommandRef = useRef<(command: ShortcutAction) => void>(() => {});
+  onCommandRef.current = (command) => {
+    if (!enabled || !target) return;
+    switch (command) {
+      case 'proofread-now':
+        if (realtimeEnabled) proofreadNow();
+        break;
+      case 'accept-suggestion':
+        applySuggestion();
+        break;
+      case 'next-issue':
+      case 'prev-issue':
+        jumpToIssue(command === 'next-issue' ? 1 : -1);
+        break;
+      case 'rewrite-selection':
+        getLastRewrite().then((options) => {
+          try { document.dispatchEvent(new CustomEvent('gx:context-action', { detail: { kind: 'rewrite', ...options } })); } catch {}
+        });
+        break;
+      case 'undo':
+        if (canUndo(target)) undoEdit(target);
+        break;
+      case 'redo':
+        if (canRedo(target)) redoEdit(target);
+        break;
+    }
+  };
+  useEffect(() => {
+    const onCommand = (e: CustomEvent<ShortcutAction>) => onCommandRef.current(e.detail);
+    // A new language for the field invalidates the underlines
+    const onLanguage = () => onCommandRef.current('proofread-now');
+    document.addEventListener('gx:command' as any, onCommand as any);
+    document.addEventListener('gx:language', onLanguage);
+    return () => {
+      document.removeEventListener('gx:command' as any, onCommand as any);
+      document.removeEventListener('gx:language', onLanguage);
+    };
+  }, []);
+
   // Replace the range with suggestion text
-  function applySuggestion() {
-    if (!target || !suggest.open || !suggest.range) return;
+  async function applySuggestion() {
+    if (!target || !suggest.open || !suggest.range || typeof suggest.range.replacement !== 'string') return;
     const { start, end } = suggest.range;
     const replacement = suggest.text;
-    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
-      const s = clamp(start, 0, target.value.length);
-      const e = clamp(end, s, target.value.length);
-      target.setSelectionRange(s, e);
-      replaceSelection(target, replacement);
-      setSuggest((s0)=>({ ...s0, open: false }));
-      // Immediately refresh proofread so other mistakes persist and indices stay in sync
-      setTimeout(() => { proofreadNow(); }, 0);
-      return;
-    }
-    if (target.isContentEditable) {
-      // Map offsets to a DOM Range within target and replace
-      const setRangeByOffsets = (root: HTMLElement, sOff: number, eOff: number): Range | null => {
-        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, null);
-        let node: Node | null = walker.nextNode();
-        let acc = 0;
-        let sNode: Node | null = null, eNode: Node | null = null;
-        let sIn = 0, eIn = 0;
-        while (node) {
-          const len = (node.nodeValue || '').length;
-          if (sNode == null && acc + len >= sOff) { sNode = node; sIn = sOff - acc; }
-          if (eNode == null && acc + len >= eOff) { eNode = node; eIn = eOff - acc; break; }
-          acc += len;
-          node = walker.nextNode();
-        }
-        if (!sNode) { sNode = root; sIn = 0; }
-        if (!eNode) { eNode = sNode; eIn = sIn; }
-        try {
-          const r = document.createRange();
-          r.setStart(sNode, sIn);
-          r.setEnd(eNode, eIn);
-          return r;
-        } catch { return null; }
-      };
-      const domRange = setRangeByOffsets(target, start, end);
-      if (domRange) {
-        const sel = document.getSelection();
-        sel?.removeAllRanges();
-        sel?.addRange(domRange);
-        replaceSelection(target, replacement);
-        setSuggest((s0)=>({ ...s0, open: false }));
-        setTimeout(() => { proofreadNow(); }, 0);
-        return;
-      }
-    }
+    const text = getEditableText(target);
+    if (text !== lastTextRef.current) return; // ranges are stale until the next proofread
+    setSuggest((s0)=>({ ...s0, open: false }));
+    if (await applyTextEdits(target, text, [{ start, end, replacement }])) recordUsage('suggestion');
+    // Immediately refresh proofread so other mistakes persist and indices stay in sync
+    setTimeout(() => { proofreadNow(); }, 0);
+  }
+
+  // "Ignore" hides the range in this field until it changes; "Ignore always" and "Add to dictionary"
+  // are synced, and hide it here right away rather than after the worker's gx:dictionary round trip
+  function ignoreSuggestion(how: 'once' | 'always' | 'dictionary') {
+    if (!target || !suggest.open || !suggest.range) return;
+    const r = suggest.range;
+    const text = getEditableText(target);
+    if (text !== lastTextRef.current) return;
+    setSuggest((s0)=>({ ...s0, open: false }));
+    if (how === 'always') addIgnoreRule(ignoreRuleFor(text, r));
+    else if (how === 'dictionary' && suggest.word) addToDictionary(suggest.word);
+    const once = ignoredOnceRef.current;
+    ignoredOnceRef.current = { text, ranges: [...carryRanges(once.ranges, once.text, text), r] };
+    renderRanges(text);
   }
 
+  // Rules changed here or in another tab/device: redraw without waiting for the next proofread
+  useEffect(() => {
+    if (!target || !overlayRef.current) return;
+    const text = getEditableText(target);
+    if (text !== lastTextRef.current) return;
+    renderRanges(text);
+    updateSuggestionForCaret();
+  }, [dictionary]);
+
+  // Context menu actions from the background worker run on the focused field in this frame
+  useEffect(() => {
+    if (!enabled) return;
+    let hideTimer = 0;
+    const onAction = async (e: CustomEvent<ContextAction>) => {
+      const el = getActiveEditable();
+      if (!el) return;
+      actionAbortRef.current?.abort();
+      const controller = new AbortController();
+      actionAbortRef.current = controller;
+      window.clearTimeout(hideTimer);
+      const rect = getEditorAdapter(el).root.getBoundingClientRect();
+      const place = { top: clamp(rect.top - 30, MARGIN, window.innerHeight - 30), left: clamp(rect.left, MARGIN, window.innerWidth - 180) };
+      setActionStatus({ text: CONTEXT_ACTION_LABELS[e.detail.kind], error: false, ...place });
+      let message: string | null;
+      try {
+        message = await runContextAction(el, e.detail, controller.signal);
+      } catch (err: any) {
+        message = isCancelError(err) ? null : (err?.message || String(err));
+      }
+      if (actionAbortRef.current !== controller) return;
+      actionAbortRef.current = null;
+      if (!message) { setActionStatus(null); return; }
+      setActionStatus({ text: message, error: true, ...place });
+      hideTimer = window.setTimeout(() => setActionStatus(null), 4000);
+    };
+    document.addEventListener('gx:context-action' as any, onAction as any);
+    return () => {
+      document.removeEventListener('gx:context-action' as any, onAction as any);
+      window.clearTimeout(hideTimer);
+      actionAbortRef.current?.abort();
+      actionAbortRef.current = null;
+    };
+  }, [enabled]);
+
   if (!enabled) return null;
   return (
     <>
-  <Popover target={target} onDisable={() => setEnabled(false)} />
-      {suggest.open && (
+  <Popover
+        target={target}
+        settings={settings}
+        onDisable={() => setEnabled(false)}
+        onIgnoreField={() => {
+          if (!target) return;
+          try { document.dispatchEvent(new CustomEvent('gx:clear')); } catch {}
+          ignoreField(fieldKey(target));
+          setTarget(null);
+        }}
+      />
+      {actionStatus && (
         <div
-          style={{ position: 'fixed', top: suggest.top, left: suggest.left, zIndex: 2147483647, background: '#ffffff', color: '#0f172a', border: '1px solid #e5e7eb', borderRadius: 8, padding: '4px 8px', fontSize: SMALL_FONT, boxShadow: '0 8px 24px rgba(0,0,0,0.12)', cursor: 'pointer', maxWidth: 160, whiteSpace: 'nowrap', textOverflow: 'ellipsis', overflow: 'hidden' }}
+          style={{ position: 'fixed', top: actionStatus.top, left: actionStatus.left, zIndex: 2147483647, background: '#ffffff', color: actionStatus.error ? '#b91c1c' : '#0f172a', border: '1px solid #e5e7eb', borderRadius: 8, padding: '4px 8px', fontSize: SMALL_FONT, boxShadow: '0 8px 24px rgba(0,0,0,0.12)', cursor: 'pointer', maxWidth: 240 }}
           onMouseDown={(e)=> e.preventDefault()}
-          onClick={(e)=> { e.preventDefault(); applySuggestion(); }}
-          title="Click to replace"
+          onClick={() => { actionAbortRef.current?.abort(); actionAbortRef.current = null; setActionStatus(null); }}
+          title={actionStatus.error ? 'Dismiss' : 'Cancel'}
         >
-          {suggest.text}
+          {actionStatus.text}
+        </div>
+      )}
+      {suggest.open && suggest.range && (
+        <div
+          style={{ position: 'fixed', top: suggest.top, left: suggest.left, zIndex: 2147483647, display: 'flex', alignItems: 'center', gap: 4, background: '#ffffff', color: '#0f172a', border: '1px solid #e5e7eb', borderRadius: 8, padding: '4px 8px', fontSize: SMALL_FONT, boxShadow: '0 8px 24px rgba(0,0,0,0.12)', maxWidth: SUGGEST_MAX_W, whiteSpace: 'nowrap' }}
+          onMouseDown={(e)=> e.preventDefault()}
+          title={suggest.range.explanation}
+        >
+          {typeof suggest.range.replacement === 'string' && (
+            <span
+              style={{ cursor: 'pointer', fontWeight: 600, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', marginRight: 2 }}
+              onClick={(e)=> { e.preventDefault(); applySuggestion(); }}
+              title="Click to replace"
+            >
+              {suggest.text || 'Remove'}
+            </span>
+          )}
+          <button style={viewStyle} onClick={() => ignoreSuggestion('once')} title="Hide this underline in this field">Ignore</button>
+          <button style={viewStyle} onClick={() => ignoreSuggestion('always')} title="Never flag this text with this fix again">Ignore always</button>
+          {suggest.word && (
+            <button style={viewStyle} onClick={() => ignoreSuggestion('dictionary')} title={`Treat "${suggest.word}" as correct everywhere`}>Add to dictionary</button>
+          )}
         </div>
       )}
     </>
@@ -1280,17 +2313,38 @@ function App() {
     root.render(<App />);
     mounted = true;
   }
-  if (IS_GOOGLE_DOCS || IS_GMAIL) {
-    // On Google Docs and Gmail, mount immediately so the bubble is available even before focus
-    try { mount(); } catch {}
-  } else {
-    const onFocusIn = (e: Event) => {
-      const t = e.target as HTMLElement | null;
-      if (t && isEditable(t)) {
-        try { mount(); } catch {}
-        document.removeEventListener('focusin', onFocusIn, true);
-      }
-    };
-    document.addEventListener('focusin', onFocusIn, true);
+  let started = false;
+  function start() {
+    if (started) return;
+    started = true;
+    if (IS_GOOGLE_DOCS || IS_GMAIL) {
+      // On Google Docs and Gmail, mount immediately so the bubble is available even before focus
+      try { mount(); } catch {}
+    } else {
+      const onFocusIn = (e: Event) => {
+        const t = e.target as HTMLElement | null;
+        if (t && isEditable(t) && isFieldAllowed(t, ignoredFields)) {
+          try { mount(); } catch {}
+          document.removeEventListener('focusin', onFocusIn, true);
+        }
+      };
+      document.addEventListener('focusin', onFocusIn, true);
+      // Focus may already be in a field when the site is switched back on
+      const active = document.activeElement;
+      if (isEditable(active) && isFieldAllowed(active as HTMLElement, ignoredFields)) { try { mount(); } catch {} }
+    }
   }
+  // Docs routes typing through a hidden same-origin iframe; never mount inside it
+  try { if ((window.frameElement as HTMLElement | null)?.classList.contains('docs-texteventtarget-iframe')) return; } catch {}
+  // Sites switched off in the rules get nothing mounted; once mounted, App follows rule changes
+  let ignoredFields: string[] | undefined;
+  const onSite = (e: CustomEvent<SiteState>) => {
+    ignoredFields = e.detail.ignoredFields;
+    if (e.detail.mode !== 'off') start();
+  };
+  document.addEventListener('gx:site' as any, onSite as any);
+  getState().then((state) => {
+    ignoredFields = state?.site.ignoredFields;
+    if (state?.site.mode !== 'off') start();
+  });
 })();
@@ -0,0 +1,85 @@
+// Writing context for Writer/Rewriter: what the page says about the field and the conversation it
+// belongs to (page title, field label, the Gmail thread being replied to, text around the caret).
+// Only collected when the user turns "Use page context" on; the panel previews exactly what is sent.
+
+import { getEditorAdapter } from './adapters';
+
+export type WritingContext = {
+  page: string;
+  field: string;
+  // Gmail: the thread being replied to, oldest first
+  thread: string;
+  // Field text around the caret (Write) or around the selection being rewritten
+  before: string;
+  after: string;
+};
+
+const MAX_THREAD_CHARS = 1200;
+const MAX_BEFORE_CHARS = 600;
+const MAX_AFTER_CHARS = 300;
+// Models have small context windows; everything together stays under this
+const MAX_CONTEXT_CHARS = 2000;
+
+const IS_GMAIL = typeof location !== 'undefined' && /(^|\.)mail\.google\.com$/.test(location.hostname);
+
+function clean(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+// Label, aria-label/labelledby or placeholder, whichever the page provides
+function describeField(el: HTMLElement): string {
+  const parts: string[] = [];
+  const labelledBy = el.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    parts.push(labelledBy.split(/\s+/).map((id) => clean(document.getElementById(id)?.textContent)).join(' '));
+  }
+  parts.push(clean(el.getAttribute('aria-label')));
+  if (el.id) {
+    try { parts.push(clean(document.querySelector(`label[for="${CSS.escape(el.id)}"]`)?.textContent)); } catch {}
+  }
+  parts.push(clean(el.closest('label')?.textContent));
+  parts.push(clean(el.getAttribute('placeholder')));
+  return Array.from(new Set(parts.filter(Boolean))).join(' / ').slice(0, 200);
+}
+
+// Subject and the last messages of the open Gmail thread, newest kept when trimming
+function gmailThread(el: HTMLElement): string {
+  const subject = clean(document.querySelector('h2.hP')?.textContent);
+  const messages = Array.from(document.querySelectorAll<HTMLElement>('div.a3s'))
+    .filter((m) => !m.contains(el) && !el.contains(m))
+    .map((m) => clean(m.innerText))
+    .filter(Boolean)
+    .slice(-3);
+  let thread = messages.join('\n---\n');
+  if (thread.length > MAX_THREAD_CHARS) thread = '…' + thread.slice(-MAX_THREAD_CHARS);
+  return [subject && `Subject: ${subject}`, thread].filter(Boolean).join('\n');
+}
+
+// surrounding: include the field text around the selection; off when the whole field is the input
+export function collectWritingContext(el: HTMLElement, surrounding: boolean = true): WritingContext {
+  const adapter = getEditorAdapter(el);
+  const text = surrounding ? adapter.getText() : '';
+  const sel = adapter.getSelection() ?? { start: text.length, end: text.length };
+  const before = text.slice(0, sel.start);
+  const after = text.slice(sel.end);
+  return {
+    page: clean(document.title).slice(0, 200),
+    field: describeField(el),
+    thread: IS_GMAIL ? gmailThread(el) : '',
+    before: before.length > MAX_BEFORE_CHARS ? '…' + before.slice(-MAX_BEFORE_CHARS) : before,
+    after: after.length > MAX_AFTER_CHARS ? after.slice(0, MAX_AFTER_CHARS) + '…' : after,
+  };
+}
+
+// The text handed to the models as `context`
+export function formatWritingContext(ctx: WritingContext): string {
+  const sections = [
+    ctx.page && `Page: ${ctx.page}`,
+    ctx.field && `Field: ${ctx.field}`,
+    ctx.thread && `Conversation being replied to:\n${ctx.thread}`,
+    ctx.before.trim() && `Text before the cursor:\n${ctx.before.trim()}`,
+    ctx.after.trim() && `Text after the cursor:\n${ctx.after.trim()}`,
+  ].filter(Boolean) as string[];
+  const out = sections.join('\n\n');
+  return out.length > MAX_CONTEXT_CHARS ? out.slice(0, MAX_CONTEXT_CHARS) + '…' : out;
+}
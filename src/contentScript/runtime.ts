@@ -0,0 +1,78 @@
+// Content-script side of the background messaging: fetch settings/site state once, report usage,
+// and re-emit pushed messages as DOM events (gx:settings, gx:site, gx:dictionary, gx:command,
+// gx:context-action) for the React tree.
+
+import { sendToBackground, type StateResponse, type TabMessage } from '../shared/messages';
+import { DEFAULT_SETTINGS, applySiteRules, type IgnoreRule, type RewriteOptions, type Settings, type UsageAction } from '../shared/settings';
+
+const ORIGIN = typeof location !== 'undefined' ? location.origin : '';
+
+let statePromise: Promise<StateResponse | null> | null = null;
+
+// Settings and this origin's state; cached for the page, kept fresh by gx:settings/gx:site
+export function getState(): Promise<StateResponse | null> {
+  if (!statePromise) statePromise = sendToBackground<StateResponse>({ type: 'getState', origin: ORIGIN });
+  return statePromise;
+}
+
+// Toggles changed from the panel; the worker broadcasts the result back as gx:settings
+export function updateSettings(patch: Partial<Settings>) {
+  sendToBackground({ type: 'updateSettings', patch }).catch(() => {});
+}
+
+export function recordUsage(action: UsageAction) {
+  sendToBackground({ type: 'recordUsage', action }).catch(() => {});
+}
+
+// "Never on this field": remembered per origin; the worker pushes the new site state back as gx:site
+export function ignoreField(key: string) {
+  sendToBackground({ type: 'ignoreField', origin: ORIGIN, key }).catch(() => {});
+}
+
+// Suggestion bubble actions; synced, and pushed back to every tab as gx:dictionary
+export function addToDictionary(word: string) {
+  sendToBackground({ type: 'addToDictionary', words: [word] }).catch(() => {});
+}
+
+export function addIgnoreRule(rule: IgnoreRule) {
+  sendToBackground({ type: 'addIgnoreRule', rule }).catch(() => {});
+}
+
+// Shared across tabs so the rewrite shortcut repeats whatever was used last anywhere
+export function rememberRewrite(options: RewriteOptions) {
+  sendToBackground({ type: 'setLastRewrite', options }).catch(() => {});
+}
+
+export async function getLastRewrite(): Promise<RewriteOptions> {
+  const last = await sendToBackground<RewriteOptions>({ type: 'getLastRewrite' });
+  if (last) return last;
+  const state = await getState();
+  const settings = state ? applySiteRules(state.settings, state.site) : DEFAULT_SETTINGS;
+  return { tone: settings.rewriteTone, length: settings.rewriteLength };
+}
+
+function emit(name: string, detail: unknown) {
+  try { document.dispatchEvent(new CustomEvent(name, { detail })); } catch {}
+}
+
+try {
+  chrome.runtime.onMessage.addListener((msg: TabMessage) => {
+    if (!msg || typeof msg.type !== 'string') return;
+    if (msg.type === 'settingsChanged') {
+      statePromise = getState().then((s) => s && { ...s, settings: msg.settings });
+      emit('gx:settings', msg.settings);
+    } else if (msg.type === 'siteChanged') {
+      if (msg.origin !== ORIGIN) return;
+      statePromise = getState().then((s) => s && { ...s, site: msg.site });
+      emit('gx:site', msg.site);
+    } else if (msg.type === 'dictionaryChanged') {
+      statePromise = getState().then((s) => s && { ...s, dictionary: msg.dictionary });
+      emit('gx:dictionary', msg.dictionary);
+    } else if (msg.type === 'command') {
+      // Commands go to every frame of the tab; only the one holding focus acts
+      if (document.hasFocus()) emit('gx:command', msg.command);
+    } else if (msg.type === 'contextAction') {
+      emit('gx:context-action', msg.action);
+    }
+  });
+} catch {}
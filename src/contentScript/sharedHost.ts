@@ -0,0 +1,105 @@
+// Content-script side of the shared model host (settings.modelHost = 'shared'): model calls go over a
+// port to the background worker, which runs them in its offscreen document (or itself, for the
+// OpenAI-compatible provider). Same call semantics as the in-page bridge in main.tsx (streamed
+// partials, cancel, timeout); main.tsx retries a call in the page when it fails with
+// MODEL_HOST_UNAVAILABLE.
+
+import { MODEL_CLIENT_PORT, MODEL_HOST_UNAVAILABLE, type ModelRequest, type ModelResponse } from '../shared/messages';
+
+const CALL_TIMEOUT_MS = 60_000;
+type PendingCall = {
+  resolve: (value: any) => void;
+  reject: (reason?: any) => void;
+  onPartial?: (text: string) => void;
+  timer: number;
+};
+const pending = new Map<number, PendingCall>();
+let reqCounter = 1;
+let port: chrome.runtime.Port | null = null;
+
+function post(msg: ModelRequest) {
+  try { port?.postMessage(msg); } catch {}
+}
+
+function armCallTimeout(id: number): number {
+  return window.setTimeout(() => {
+    const entry = pending.get(id);
+    if (entry) {
+      pending.delete(id);
+      post({ id: 0, method: 'cancel', params: { id } });
+      entry.reject(new Error('Model host call timed out'));
+    }
+  }, CALL_TIMEOUT_MS);
+}
+
+function onResponse(msg: ModelResponse) {
+  if ('event' in msg) {
+    // Download progress/availability, for the panel (same event as from the in-page script)
+    try { document.dispatchEvent(new CustomEvent('gx:model-status', { detail: msg })); } catch {}
+    return;
+  }
+  const entry = pending.get(msg.id);
+  if (!entry) return;
+  if (typeof msg.partial === 'string') {
+    // Streaming chunk: keep the call pending and restart the timeout while output is still flowing
+    window.clearTimeout(entry.timer);
+    entry.timer = armCallTimeout(msg.id);
+    try { entry.onPartial?.(msg.partial); } catch {}
+    return;
+  }
+  pending.delete(msg.id);
+  window.clearTimeout(entry.timer);
+  if (msg.error) entry.reject(new Error(msg.error));
+  else entry.resolve(msg.result);
+}
+
+// The worker drops ports when it is stopped; the next call reconnects (and wakes it up)
+function connect(): chrome.runtime.Port {
+  if (port) return port;
+  const p = chrome.runtime.connect({ name: MODEL_CLIENT_PORT });
+  p.onMessage.addListener(onResponse);
+  p.onDisconnect.addListener(() => {
+    if (port === p) port = null;
+    for (const entry of pending.values()) {
+      window.clearTimeout(entry.timer);
+      entry.reject(new Error(`${MODEL_HOST_UNAVAILABLE}: disconnected`));
+    }
+    pending.clear();
+  });
+  port = p;
+  return p;
+}
+
+export function isHostUnavailable(e: any): boolean {
+  return String(e?.message || e || '').startsWith(MODEL_HOST_UNAVAILABLE);
+}
+
+// onPartial and signal behave as for callInpage in main.tsx
+export function callSharedHost<T = any>(
+  method: string,
+  params: any,
+  opts: { onPartial?: (text: string) => void; signal?: AbortSignal } = {}
+): Promise<T> {
+  const { signal } = opts;
+  if (signal?.aborted) return Promise.reject(new Error('Request cancelled'));
+  try {
+    connect();
+  } catch (e: any) {
+    // Extension context invalidated (reloaded or updated)
+    return Promise.reject(new Error(`${MODEL_HOST_UNAVAILABLE}: ${e?.message || e}`));
+  }
+  const id = reqCounter++;
+  const p = new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve: (value) => resolve(value as T), reject, onPartial: opts.onPartial, timer: armCallTimeout(id) });
+  });
+  signal?.addEventListener('abort', () => {
+    const entry = pending.get(id);
+    if (!entry) return;
+    pending.delete(id);
+    window.clearTimeout(entry.timer);
+    post({ id: 0, method: 'cancel', params: { id } });
+    entry.reject(new Error('Request cancelled'));
+  }, { once: true });
+  post({ id, method, params });
+  return p;
+}
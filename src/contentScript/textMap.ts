@@ -0,0 +1,133 @@
+// Map offsets in a contentEditable's innerText (what proofread/rewrite see) to DOM text positions.
+// innerText adds newlines for <br>/blocks and collapses whitespace, so plain text-node offsets drift
+// after the first paragraph; aligning the two strings keeps edits on the right characters.
+
+type DomPoint = { node: Node; offset: number };
+
+export type TextMap = {
+  text: string;
+  // DOM point before text[i] (i may be text.length)
+  startAt: (i: number) => DomPoint;
+  // DOM point after text[i - 1]; differs from startAt(i) at block boundaries
+  endAt: (i: number) => DomPoint;
+};
+
+const WS = /[\s\u00a0]/;
+
+// Case-insensitive because text-transform changes case in innerText but not in the DOM
+function sameChar(a: string, b: string): boolean {
+  return a === b || (WS.test(a) && WS.test(b)) || a.toLowerCase() === b.toLowerCase();
+}
+
+export function mapTextOffsets(root: HTMLElement): TextMap {
+  const text = root.innerText || '';
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, null);
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) nodes.push(n as Text);
+  const lens = nodes.map((n) => (n.nodeValue || '').length);
+  const starts: number[] = [];
+  let total = 0;
+  for (const len of lens) { starts.push(total); total += len; }
+  const source = nodes.map((n) => n.nodeValue || '').join('');
+
+  // Node holding source[k] (binary search over node start offsets)
+  const nodeOf = (k: number): number => {
+    let lo = 0, hi = nodes.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= k) lo = mid; else hi = mid - 1;
+    }
+    return lo;
+  };
+  const rootEnd = (): DomPoint => ({ node: root, offset: root.childNodes.length });
+  // Point just before source[k], inside the node that holds it
+  const right = (k: number): DomPoint => {
+    if (!nodes.length) return rootEnd();
+    if (k >= total) return { node: nodes[nodes.length - 1], offset: lens[lens.length - 1] };
+    const n = nodeOf(k);
+    return { node: nodes[n], offset: k - starts[n] };
+  };
+  // Point just after source[k - 1], inside the node that holds it
+  const left = (k: number): DomPoint => {
+    if (!nodes.length) return rootEnd();
+    if (k <= 0) return { node: nodes[0], offset: 0 };
+    const n = nodeOf(k - 1);
+    return { node: nodes[n], offset: k - starts[n] };
+  };
+
+  // Align innerText with the raw text: kAt[i] is the source index when text[i] is reached, and
+  // consumed[i] says whether text[i] came from the source or was synthesized (block/<br> newline)
+  const kAt: number[] = [];
+  const consumed: boolean[] = [];
+  let k = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    // Skip source characters that innerText dropped (collapsed whitespace)
+    while (k < source.length && !sameChar(source[k], ch) && WS.test(source[k])) k++;
+    // Other text it dropped (display:none, hidden): re-sync at the next occurrence so later offsets
+    // don't stay shifted
+    if (k < source.length && !sameChar(source[k], ch) && !WS.test(ch)) {
+      let j = k;
+      while (j < source.length && !sameChar(source[j], ch)) j++;
+      if (j < source.length) k = j;
+    }
+    kAt.push(k);
+    const hit = k < source.length && sameChar(source[k], ch);
+    consumed.push(hit);
+    if (hit) k++;
+  }
+  kAt.push(k);
+
+  const clampIndex = (i: number) => Math.max(0, Math.min(text.length, i));
+  const startAt = (i0: number): DomPoint => {
+    const i = clampIndex(i0);
+    // A synthetic newline belongs to the end of the preceding block
+    return (i < text.length && consumed[i]) ? right(kAt[i]) : left(kAt[i]);
+  };
+  const endAt = (e0: number): DomPoint => {
+    const e = clampIndex(e0);
+    if (e === 0) return startAt(0);
+    // After a synthetic newline we are at the start of the next block
+    return consumed[e - 1] ? left(kAt[e - 1] + 1) : right(kAt[e - 1]);
+  };
+  return { text, startAt, endAt };
+}
+
+export function domRangeForOffsets(root: HTMLElement, start: number, end: number): Range | null {
+  const map = mapTextOffsets(root);
+  const s = Math.max(0, Math.min(map.text.length, start));
+  const e = Math.max(s, Math.min(map.text.length, end));
+  try {
+    const r = document.createRange();
+    const sp = map.startAt(s);
+    r.setStart(sp.node, sp.offset);
+    if (e === s) {
+      r.collapse(true);
+    } else {
+      const ep = map.endAt(e);
+      r.setEnd(ep.node, ep.offset);
+    }
+    return r;
+  } catch {
+    return null;
+  }
+}
+
+// innerText offset of a DOM point (e.g., the caret) inside root; pass a map to reuse it across calls
+export function offsetForDomPoint(root: HTMLElement, node: Node, offset: number, map = mapTextOffsets(root)): number | null {
+  if (!root.contains(node)) return null;
+  try {
+    // Largest index whose start point is at or before the given point (start points are in text order)
+    const probe = document.createRange();
+    probe.setStart(node, offset);
+    let lo = 0, hi = map.text.length;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      const p = map.startAt(mid);
+      if (probe.comparePoint(p.node, p.offset) <= 0) lo = mid; else hi = mid - 1;
+    }
+    return lo;
+  } catch {
+    return null;
+  }
+}
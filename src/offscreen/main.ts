@@ -0,0 +1,84 @@
+// Offscreen model host: runs shared/models.ts once for the whole browser when settings.modelHost is
+// 'shared'. The background worker creates this document on demand and relays content script calls
+// over a port (see background/modelHost.ts). Offscreen documents only get chrome.runtime, so the
+// memory policy arrives as a `configure` call.
+
+import { disposeModels, handleModelCall, lastModelActivity, onModelStatus, type CallContext } from '../shared/models';
+import { MODEL_HOST_PORT, type ModelHostWake, type ModelRequest, type ModelResponse } from '../shared/messages';
+
+let port: chrome.runtime.Port | null = null;
+
+function post(msg: ModelResponse) {
+  try { port?.postMessage(msg); } catch {}
+}
+
+onModelStatus((status) => post({ id: 0, event: 'model-status', ...status }));
+
+// In-flight calls keyed by (worker-assigned) request id so `cancel` can abort them
+const inflight = new Map<number, AbortController>();
+
+// Idle limit; the worker sends the memory policy's value via `configure`
+let modelIdleMs = 30_000;
+// The idle clock restarts after each idle dispose, so it doesn't fire again every check
+let lastDisposeAt = Date.now();
+
+async function handle(method: string, params: any, ctx: CallContext) {
+  switch (method) {
+    case 'cancel': {
+      const controller = inflight.get(Number(params?.id));
+      if (controller) controller.abort();
+      return { ok: true, cancelled: !!controller };
+    }
+    case 'configure': {
+      const m = params?.modelIdleMs;
+      if (Number.isFinite(m) && m > 0) modelIdleMs = m;
+      return { ok: true };
+    }
+    default:
+      return handleModelCall(method, params, ctx);
+  }
+}
+
+async function onRequest({ id, method, params }: ModelRequest) {
+  const controller = new AbortController();
+  // id 0 is reserved for fire-and-forget messages (cancel, configure) and is never tracked
+  if (id) inflight.set(id, controller);
+  try {
+    const result = await handle(method, params, { signal: controller.signal, onPartial: (partial) => post({ id, partial }) });
+    post({ id, result });
+  } catch (e: any) {
+    const aborted = controller.signal.aborted || (e?.name || '') === 'AbortError';
+    post({ id, error: aborted ? 'Request cancelled' : (e?.message || String(e)) });
+  } finally {
+    if (id) inflight.delete(id);
+  }
+}
+
+function connect() {
+  if (port) return;
+  const p = chrome.runtime.connect({ name: MODEL_HOST_PORT });
+  p.onMessage.addListener((msg: ModelRequest) => { onRequest(msg); });
+  p.onDisconnect.addListener(() => {
+    if (port === p) port = null;
+    // The worker was stopped; nobody is left to receive these results. Models stay loaded until
+    // the idle timer, and the worker wakes us up again on its next call.
+    for (const controller of inflight.values()) controller.abort();
+    inflight.clear();
+  });
+  port = p;
+}
+
+connect();
+chrome.runtime.onMessage.addListener((msg: ModelHostWake) => {
+  if (msg?.type === 'connectModelHost') connect();
+});
+
+// Idle monitor: there is no tab visibility or heartbeat here, only model activity across all tabs
+const CHECK_INTERVAL_MS = 15_000;
+setInterval(() => {
+  const now = Date.now();
+  if (now - Math.max(lastModelActivity(), lastDisposeAt) > modelIdleMs) {
+    try { disposeModels(); } catch {}
+    lastDisposeAt = now;
+  }
+}, CHECK_INTERVAL_MS);
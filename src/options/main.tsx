@@ -0,0 +1,546 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { sendToBackground, type BackgroundRequest, type StateResponse } from '../shared/messages';
+import {
+  DEFAULT_SETTINGS, MAX_DICTIONARY_WORD, normalizeWords,
+  type AiFeature, type Dictionary, type AiProvider, type MemoryPolicy, type ModelHost, type OpenAiServer, type RewritePreset, type Settings, type ShortcutAction, type Shortcuts, type SiteMode, type SitePatch, type SiteState,
+} from '../shared/settings';
+import { SITE_MODE_LABELS, SiteRuleFields } from '../shared/siteRules';
+import { SHORTCUT_LABELS, isUsableShortcut, shortcutFromEvent } from '../shared/shortcuts';
+import { LANGUAGE_NAMES } from '../shared/languages';
+
+const MEMORY_POLICY_LABELS: Record<MemoryPolicy, { title: string; hint: string }> = {
+  low: { title: 'Low memory', hint: 'Unload models soon after use. Slower first response after a pause.' },
+  balanced: { title: 'Balanced', hint: 'Unload Writer/Rewriter when the panel closes and everything after ~30s idle.' },
+  performance: { title: 'Keep loaded', hint: 'Keep models loaded while the tab is in use. Uses more RAM.' },
+};
+
+const MODEL_HOST_LABELS: Record<ModelHost, { title: string; hint: string }> = {
+  page: { title: 'In each tab', hint: 'Every tab loads its own models. Works everywhere; uses RAM per tab.' },
+  shared: { title: 'Shared across tabs', hint: 'One set of models for the whole browser, in a hidden extension page. Falls back to the tab if it can\'t run there.' },
+};
+
+function NumberField({ label, hint, value, min, max, step, onChange }: {
+  label: string; hint: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void;
+}) {
+  return (
+    <label style={fieldStyle}>
+      <span>{label}</span>
+      <input
+        type="number" min={min} max={max} step={step} value={value} style={{ width: 100 }}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (Number.isFinite(v)) onChange(Math.max(min, Math.min(max, v)));
+        }}
+      />
+      <span style={hintStyle}>{hint}</span>
+    </label>
+  );
+}
+
+// Presets are stored with the settings in chrome.storage.sync, which caps each item at 8 KB
+const MAX_PRESETS = 10;
+const MAX_PRESET_CONTEXT = 500;
+
+function RewritePresetsSection({ presets, onChange }: { presets: RewritePreset[]; onChange: (next: RewritePreset[]) => void }) {
+  const update = (id: string, patch: Partial<RewritePreset>) => onChange(presets.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  const add = () => onChange([
+    ...presets,
+    { id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6), name: 'New preset', tone: 'as-is', length: 'as-is', context: '' },
+  ]);
+  return (
+    <div>
+      {presets.map((preset) => (
+        <div key={preset.id} style={siteCardStyle}>
+          <div style={{ ...fieldStyle, justifyContent: 'space-between' }}>
+            <input value={preset.name} maxLength={40} onChange={(e) => update(preset.id, { name: e.target.value })} style={{ width: 200 }} />
+            <button onClick={() => onChange(presets.filter((p) => p.id !== preset.id))}>Remove</button>
+          </div>
+          <div style={fieldStyle}>
+            <span>Tone</span>
+            <select value={preset.tone} onChange={(e) => update(preset.id, { tone: e.target.value as RewritePreset['tone'] })}>
+              <option value="more-casual">More casual</option>
+              <option value="as-is">As-is</option>
+              <option value="more-formal">More formal</option>
+            </select>
+            <span>Length</span>
+            <select value={preset.length} onChange={(e) => update(preset.id, { length: e.target.value as RewritePreset['length'] })}>
+              <option value="shorter">Shorter</option>
+              <option value="as-is">As-is</option>
+              <option value="longer">Longer</option>
+            </select>
+          </div>
+          <textarea
+            value={preset.context || ''}
+            maxLength={MAX_PRESET_CONTEXT}
+            rows={2}
+            placeholder="Instruction, e.g. Format as a Jira ticket with a summary line and acceptance criteria."
+            onChange={(e) => update(preset.id, { context: e.target.value })}
+            style={{ width: '100%', boxSizing: 'border-box' }}
+          />
+        </div>
+      ))}
+      <button onClick={add} disabled={presets.length >= MAX_PRESETS}>Add preset</button>
+      <p style={hintStyle}>Presets show as buttons in the panel's Rewrite tab and under Rewrite in the right-click menu.</p>
+    </div>
+  );
+}
+
+// Order matters: the first language is the fallback when detection has nothing to go on
+function LanguagesSection({ languages, onChange }: { languages: string[]; onChange: (next: string[]) => void }) {
+  const toggle = (code: string, on: boolean) => {
+    const next = on ? [...languages, code] : languages.filter((l) => l !== code);
+    if (next.length) onChange(next);
+  };
+  return (
+    <div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 16px', maxWidth: 480 }}>
+        {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+          <label key={code} style={fieldStyle}>
+            <input type="checkbox" checked={languages.includes(code)} onChange={(e) => toggle(code, e.target.checked)} />
+            {name}
+          </label>
+        ))}
+      </div>
+      <label style={fieldStyle}>
+        <span>Default</span>
+        <select value={languages[0]} onChange={(e) => onChange([e.target.value, ...languages.filter((l) => l !== e.target.value)])}>
+          {languages.map((code) => <option key={code} value={code}>{LANGUAGE_NAMES[code] || code}</option>)}
+        </select>
+        <span style={hintStyle}>Used when a field's language can't be detected.</span>
+      </label>
+      <p style={hintStyle}>
+        Typerra detects each field's language and favours the ones checked here for short or mixed text. Pick a
+        language for a single field from the panel. Chrome's models don't support every language yet.
+      </p>
+    </div>
+  );
+}
+
+const FEATURE_LABELS: Record<AiFeature, string> = {
+  proofread: 'Proofread',
+  rewrite: 'Rewrite',
+  write: 'Write',
+  translate: 'Translate',
+  summarize: 'Summarize',
+  ask: 'Ask',
+};
+
+function ProvidersSection({ providers, server, onProviders, onServer }: {
+  providers: Record<AiFeature, AiProvider>;
+  server: OpenAiServer;
+  onProviders: (next: Record<AiFeature, AiProvider>) => void;
+  onServer: (next: OpenAiServer) => void;
+}) {
+  const usesServer = Object.values(providers).includes('openai');
+  return (
+    <div>
+      {(Object.keys(FEATURE_LABELS) as AiFeature[]).map((feature) => (
+        <label key={feature} style={fieldStyle}>
+          <span style={{ width: 90 }}>{FEATURE_LABELS[feature]}</span>
+          <select value={providers[feature]} onChange={(e) => onProviders({ ...providers, [feature]: e.target.value as AiProvider })}>
+            <option value="builtin">Chrome built-in AI</option>
+            <option value="openai">OpenAI-compatible server</option>
+          </select>
+        </label>
+      ))}
+      <div style={{ ...siteCardStyle, opacity: usesServer ? 1 : 0.6 }}>
+        <label style={fieldStyle}>
+          <span style={{ width: 90 }}>Server URL</span>
+          <input value={server.baseUrl} placeholder="http://localhost:11434/v1" onChange={(e) => onServer({ ...server, baseUrl: e.target.value })} style={{ width: 280 }} />
+        </label>
+        <label style={fieldStyle}>
+          <span style={{ width: 90 }}>Model</span>
+          <input value={server.model} placeholder="llama3.2" onChange={(e) => onServer({ ...server, model: e.target.value })} style={{ width: 280 }} />
+        </label>
+        <label style={fieldStyle}>
+          <span style={{ width: 90 }}>API key</span>
+          <input type="password" value={server.apiKey} placeholder="Not needed for local servers" onChange={(e) => onServer({ ...server, apiKey: e.target.value })} style={{ width: 280 }} />
+        </label>
+        <p style={hintStyle}>
+          Any server with an OpenAI-style /chat/completions endpoint, e.g. Ollama or llama.cpp's server. Text from the page
+          is sent to it; the API key is saved with your synced settings.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ShortcutsSection({ shortcuts, onChange }: { shortcuts: Shortcuts; onChange: (next: Shortcuts) => void }) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+
+  // Record the next key combo for an action: Escape cancels, Backspace/Delete unbinds
+  useEffect(() => {
+    if (!recording) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') { setRecording(null); setHint(null); return; }
+      let combo = '';
+      if (e.key !== 'Backspace' && e.key !== 'Delete') {
+        const next = shortcutFromEvent(e);
+        if (!next) return;
+        if (!isUsableShortcut(next)) { setHint('Use Ctrl, Alt or Meta with the key.'); return; }
+        combo = next;
+      }
+      const updated: Shortcuts = { ...shortcuts };
+      // One combo triggers one action; free it from whatever had it before
+      for (const a of Object.keys(updated) as ShortcutAction[]) {
+        if (combo && updated[a] === combo) updated[a] = '';
+      }
+      updated[recording] = combo;
+      setRecording(null);
+      setHint(null);
+      onChange(updated);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => { window.removeEventListener('keydown', onKeyDown, true); };
+  }, [recording, shortcuts, onChange]);
+
+  return (
+    <div>
+      {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map((action) => (
+        <div key={action} style={{ ...fieldStyle, justifyContent: 'space-between', maxWidth: 480 }}>
+          <span>{SHORTCUT_LABELS[action]}</span>
+          <button onClick={() => { setRecording(action); setHint(null); }} style={{ minWidth: 120 }}>
+            {recording === action ? 'Press keys…' : (shortcuts[action] || 'Not set')}
+          </button>
+        </div>
+      ))}
+      {hint && <div style={{ color: '#b91c1c', fontSize: 12 }}>{hint}</div>}
+      <p style={hintStyle}>
+        Click a shortcut, then press the new combination (Backspace clears it, Escape cancels). These work inside
+        web pages; to trigger the same actions from anywhere in Chrome, bind them at{' '}
+        <a href="#" onClick={(e) => { e.preventDefault(); chrome.tabs.create({ url: 'chrome://extensions/shortcuts' }); }}>
+          chrome://extensions/shortcuts
+        </a>.
+      </p>
+    </div>
+  );
+}
+
+function SiteRulesSection() {
+  const [sites, setSites] = useState<Record<string, SiteState>>({});
+  const [newOrigin, setNewOrigin] = useState('');
+  const [newMode, setNewMode] = useState<SiteMode>('off');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => setSites((await sendToBackground<Record<string, SiteState>>({ type: 'getSites' })) || {});
+  useEffect(() => { load(); }, []);
+
+  const update = async (origin: string, patch: SitePatch) => {
+    await sendToBackground({ type: 'updateSite', origin, patch });
+    await load();
+  };
+
+  const remove = async (origin: string) => {
+    await sendToBackground({ type: 'removeSite', origin });
+    await load();
+  };
+
+  const add = () => {
+    let origin: string;
+    try {
+      origin = new URL(/^https?:\/\//.test(newOrigin) ? newOrigin : `https://${newOrigin}`).origin;
+    } catch {
+      setError('Enter a site like https://example.com');
+      return;
+    }
+    setError(null);
+    setNewOrigin('');
+    update(origin, { mode: newMode });
+  };
+
+  const origins = Object.keys(sites).sort();
+  return (
+    <div>
+      {!origins.length && <p style={hintStyle}>No site rules yet. Typerra runs everywhere with the settings above.</p>}
+      {origins.map((origin) => (
+        <div key={origin} style={siteCardStyle}>
+          <div style={{ ...fieldStyle, justifyContent: 'space-between' }}>
+            <strong>{origin}</strong>
+            <button onClick={() => remove(origin)}>Remove</button>
+          </div>
+          <SiteRuleFields site={sites[origin]} onChange={(patch) => update(origin, patch)} fontSize={14} />
+        </div>
+      ))}
+      <div style={fieldStyle}>
+        <input value={newOrigin} placeholder="https://example.com" onChange={(e) => setNewOrigin(e.target.value)} style={{ width: 240 }} />
+        <select value={newMode} onChange={(e) => setNewMode(e.target.value as SiteMode)}>
+          {(['off', 'bubble-only', 'no-realtime'] as SiteMode[]).map((m) => <option key={m} value={m}>{SITE_MODE_LABELS[m]}</option>)}
+        </select>
+        <button onClick={add} disabled={!newOrigin.trim()}>Add rule</button>
+      </div>
+      {error && <div style={{ color: '#b91c1c', fontSize: 12 }}>{error}</div>}
+    </div>
+  );
+}
+
+// Word lists are plain text, one entry per line; blank lines and "#" comments are skipped on import
+function parseWordList(text: string): string[] {
+  return text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+}
+
+function downloadText(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function DictionarySection() {
+  const [dictionary, setDictionary] = useState<Dictionary>({ words: [], ignoreRules: [] });
+  const [newWord, setNewWord] = useState('');
+  const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const load = async () => setDictionary((await sendToBackground<Dictionary>({ type: 'getDictionary' })) || { words: [], ignoreRules: [] });
+  useEffect(() => { load(); }, []);
+
+  // The worker answers with the saved lists, or null when sync storage refused them (full)
+  const apply = async (msg: BackgroundRequest, done?: string) => {
+    const saved = await sendToBackground<Dictionary>(msg);
+    if (saved) setDictionary(saved);
+    else await load();
+    setStatus(saved ? (done ? { text: done, error: false } : null) : { text: 'Could not save. Chrome sync storage may be full; remove some words and try again.', error: true });
+  };
+
+  const add = () => {
+    const words = normalizeWords([newWord]);
+    setNewWord('');
+    if (words.length) apply({ type: 'addToDictionary', words });
+  };
+
+  const importFile = async (file: File) => {
+    const words = normalizeWords(parseWordList(await file.text()));
+    const added = words.filter((w) => !dictionary.words.includes(w)).length;
+    await apply({ type: 'addToDictionary', words }, `Imported ${added} new ${added === 1 ? 'word' : 'words'}.`);
+  };
+
+  return (
+    <div>
+      {!dictionary.words.length && <p style={hintStyle}>No words yet. Use "Add to dictionary" on an underline, or add them here.</p>}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 8, maxWidth: 600 }}>
+        {dictionary.words.map((word) => (
+          <span key={word} style={wordChipStyle}>
+            {word}
+            <button style={chipRemoveStyle} title="Remove" onClick={() => apply({ type: 'removeFromDictionary', words: [word] })}>×</button>
+          </span>
+        ))}
+      </div>
+      <div style={fieldStyle}>
+        <input
+          value={newWord}
+          maxLength={MAX_DICTIONARY_WORD}
+          placeholder="Kubernetes"
+          onChange={(e) => setNewWord(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+          style={{ width: 200 }}
+        />
+        <button onClick={add} disabled={!newWord.trim()}>Add word</button>
+      </div>
+      <div style={fieldStyle}>
+        <button onClick={() => fileRef.current?.click()}>Import…</button>
+        <input
+          ref={fileRef} type="file" accept=".txt,text/plain" style={{ display: 'none' }}
+          onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) importFile(file); }}
+        />
+        <button onClick={() => downloadText('typerra-dictionary.txt', dictionary.words.join('\n') + '\n')} disabled={!dictionary.words.length}>Export</button>
+        <button
+          onClick={() => { if (confirm('Remove every word from the dictionary?')) apply({ type: 'removeFromDictionary', words: dictionary.words }); }}
+          disabled={!dictionary.words.length}
+        >
+          Clear
+        </button>
+      </div>
+      <p style={hintStyle}>
+        Words here are never underlined. Lowercase entries match any capitalization; others match exactly. Import and
+        export use a text file with one word per line, and the list syncs with your Chrome profile.
+      </p>
+      <h3 style={h3Style}>Ignored suggestions</h3>
+      {!dictionary.ignoreRules.length && <p style={hintStyle}>None. "Ignore always" on an underline adds one here.</p>}
+      {dictionary.ignoreRules.map((rule) => (
+        <div key={`${rule.text}\u0000${rule.replacement ?? ''}`} style={fieldStyle}>
+          <span>
+            "{rule.text}"{rule.replacement !== undefined && <> → {rule.replacement ? `"${rule.replacement}"` : '(remove)'}</>}
+          </span>
+          <button onClick={() => apply({ type: 'removeIgnoreRule', rule })}>Remove</button>
+        </div>
+      ))}
+      {status && <div style={{ color: status.error ? '#b91c1c' : '#64748b', fontSize: 12 }}>{status.text}</div>}
+    </div>
+  );
+}
+
+function Options() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    sendToBackground<StateResponse>({ type: 'getState', origin: '' }).then((state) => setSettings(state?.settings ?? DEFAULT_SETTINGS));
+  }, []);
+
+  if (!settings) return null;
+
+  const set = <K extends keyof Settings>(key: K, value: Settings[K]) => {
+    setSettings({ ...settings, [key]: value });
+    setStatus(null);
+  };
+
+  const save = async (next: Settings = settings) => {
+    const saved = await sendToBackground<Settings>({ type: 'updateSettings', patch: next });
+    if (saved) setSettings(saved);
+    setStatus(saved ? 'Saved. Open tabs pick up the changes right away.' : 'Could not save settings.');
+  };
+
+  return (
+    <div style={pageStyle}>
+      <h1 style={{ fontSize: 22 }}>Typerra settings</h1>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Realtime proofreading</h2>
+        <label style={fieldStyle}>
+          <input type="checkbox" checked={settings.realtimeProofread} onChange={(e) => set('realtimeProofread', e.target.checked)} />
+          Underline mistakes while typing
+        </label>
+        <NumberField label="Pause before proofreading (ms)" hint="Wait this long after the last keystroke." value={settings.realtimeDebounceMs} min={0} max={5000} step={50} onChange={(v) => set('realtimeDebounceMs', v)} />
+        <NumberField label="Maximum field length (characters)" hint="Longer fields are only proofread from the panel." value={settings.maxRealtimeChars} min={100} max={20000} step={100} onChange={(v) => set('maxRealtimeChars', v)} />
+        <NumberField label="Minimum time between checks (ms)" hint="Limits how often the model runs while you type." value={settings.minIntervalMs} min={0} max={10000} step={100} onChange={(v) => set('minIntervalMs', v)} />
+        <label style={fieldStyle}>
+          <input type="checkbox" checked={settings.localChecks} onChange={(e) => set('localChecks', e.target.checked)} />
+          Quick local checks
+          <span style={hintStyle}>Repeated words, extra spaces, common misspellings, a/an, capitals and brackets, on every keystroke without the model.</span>
+        </label>
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Rewriter defaults</h2>
+        <label style={fieldStyle}>
+          <span>Tone</span>
+          <select value={settings.rewriteTone} onChange={(e) => set('rewriteTone', e.target.value as Settings['rewriteTone'])}>
+            <option value="more-casual">More casual</option>
+            <option value="as-is">As-is</option>
+            <option value="more-formal">More formal</option>
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          <span>Length</span>
+          <select value={settings.rewriteLength} onChange={(e) => set('rewriteLength', e.target.value as Settings['rewriteLength'])}>
+            <option value="shorter">Shorter</option>
+            <option value="as-is">As-is</option>
+            <option value="longer">Longer</option>
+          </select>
+        </label>
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Rewrite presets</h2>
+        <RewritePresetsSection presets={settings.rewritePresets} onChange={(next) => set('rewritePresets', next)} />
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Writer defaults</h2>
+        <label style={fieldStyle}>
+          <span>Tone</span>
+          <select value={settings.defaultTone} onChange={(e) => set('defaultTone', e.target.value as Settings['defaultTone'])}>
+            <option value="formal">Formal</option>
+            <option value="neutral">Neutral</option>
+            <option value="casual">Casual</option>
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          <span>Length</span>
+          <select value={settings.writerLength} onChange={(e) => set('writerLength', e.target.value as Settings['writerLength'])}>
+            <option value="short">Short</option>
+            <option value="medium">Medium</option>
+            <option value="long">Long</option>
+          </select>
+        </label>
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Page context</h2>
+        <label style={fieldStyle}>
+          <input type="checkbox" checked={settings.usePageContext} onChange={(e) => set('usePageContext', e.target.checked)} />
+          Give Write and Rewrite context from the page
+        </label>
+        <p style={hintStyle}>
+          Adds the page title, the field's label, text around the cursor and, in Gmail, the thread you are replying to
+          to every Write/Rewrite request. "Preview" in the panel shows exactly what is sent.
+        </p>
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Languages</h2>
+        <LanguagesSection languages={settings.preferredLanguages} onChange={(next) => set('preferredLanguages', next)} />
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>AI providers</h2>
+        <ProvidersSection
+          providers={settings.providers}
+          server={settings.openAiServer}
+          onProviders={(next) => set('providers', next)}
+          onServer={(next) => set('openAiServer', next)}
+        />
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Model memory</h2>
+        {(Object.keys(MEMORY_POLICY_LABELS) as MemoryPolicy[]).map((policy) => (
+          <label key={policy} style={fieldStyle}>
+            <input type="radio" name="memoryPolicy" checked={settings.memoryPolicy === policy} onChange={() => set('memoryPolicy', policy)} />
+            <span>{MEMORY_POLICY_LABELS[policy].title}</span>
+            <span style={hintStyle}>{MEMORY_POLICY_LABELS[policy].hint}</span>
+          </label>
+        ))}
+        <p style={hintStyle}>Where models run:</p>
+        {(Object.keys(MODEL_HOST_LABELS) as ModelHost[]).map((host) => (
+          <label key={host} style={fieldStyle}>
+            <input type="radio" name="modelHost" checked={settings.modelHost === host} onChange={() => set('modelHost', host)} />
+            <span>{MODEL_HOST_LABELS[host].title}</span>
+            <span style={hintStyle}>{MODEL_HOST_LABELS[host].hint}</span>
+          </label>
+        ))}
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Keyboard shortcuts</h2>
+        <ShortcutsSection shortcuts={settings.shortcuts} onChange={(next) => set('shortcuts', next)} />
+      </section>
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <button onClick={() => save()}>Save</button>
+        <button onClick={() => { setSettings(DEFAULT_SETTINGS); save(DEFAULT_SETTINGS); }}>Restore defaults</button>
+        {status && <span style={hintStyle}>{status}</span>}
+      </div>
+
+      <section style={{ ...sectionStyle, marginTop: 24 }}>
+        <h2 style={h2Style}>Site rules</h2>
+        <p style={hintStyle}>Changes here apply immediately.</p>
+        <SiteRulesSection />
+      </section>
+
+      <section style={sectionStyle}>
+        <h2 style={h2Style}>Dictionary</h2>
+        <p style={hintStyle}>Changes here apply immediately.</p>
+        <DictionarySection />
+      </section>
+    </div>
+  );
+}
+
+const pageStyle: React.CSSProperties = { maxWidth: 720, margin: '0 auto', padding: 24, fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif', fontSize: 14, color: '#0f172a' };
+const sectionStyle: React.CSSProperties = { borderTop: '1px solid #e5e7eb', paddingTop: 12, marginBottom: 16 };
+const h2Style: React.CSSProperties = { fontSize: 16, margin: '0 0 8px' };
+const fieldStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 };
+const hintStyle: React.CSSProperties = { fontSize: 12, color: '#64748b' };
+const h3Style: React.CSSProperties = { fontSize: 14, margin: '12px 0 8px' };
+const wordChipStyle: React.CSSProperties = { display: 'inline-flex', alignItems: 'center', gap: 4, padding: '2px 4px 2px 8px', background: '#f1f5f9', borderRadius: 12, fontSize: 13 };
+const chipRemoveStyle: React.CSSProperties = { padding: '0 4px', background: 'none', border: 'none', color: '#64748b', cursor: 'pointer', fontSize: 13 };
+const siteCardStyle: React.CSSProperties = { border: '1px solid #e5e7eb', borderRadius: 8, padding: 12, marginBottom: 8, maxWidth: 480 };
+
+createRoot(document.getElementById('root')!).render(<Options />);
@@ -1,20 +1,106 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import { sendToBackground, type StateResponse } from '../shared/messages';
+import type { SitePatch, SiteState, UsageStats } from '../shared/settings';
+import { SiteRuleFields } from '../shared/siteRules';
+
+// Origin of the tab the popup was opened on; null for chrome:// pages and the like
+async function activeOrigin(): Promise<string | null> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const url = tab?.url ? new URL(tab.url) : null;
+    return url && /^https?:$/.test(url.protocol) ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+type Availability = 'available' | 'downloadable' | 'downloading' | 'unavailable' | 'missing';
+
+// Built-in AI APIs the extension uses, with the flag that turns each on and the options its
+// availability() needs
+const MODEL_APIS: Array<{ name: string; label: string; flag: string; options?: any }> = [
+  { name: 'Proofreader', label: 'Proofreader', flag: 'proofreader-api-for-gemini-nano', options: { expectedInputLanguages: ['en'] } },
+  { name: 'Writer', label: 'Writer', flag: 'writer-api-for-gemini-nano' },
+  { name: 'Rewriter', label: 'Rewriter', flag: 'rewriter-api-for-gemini-nano' },
+  { name: 'Summarizer', label: 'Summarizer', flag: 'summarization-api-for-gemini-nano' },
+  { name: 'LanguageModel', label: 'Prompt API (Ask)', flag: 'prompt-api-for-gemini-nano' },
+  { name: 'Translator', label: 'Translator', flag: 'translation-api', options: { sourceLanguage: 'en', targetLanguage: 'es' } },
+  { name: 'LanguageDetector', label: 'Language detection', flag: 'language-detection-api' },
+];
+
+const AVAILABILITY_TEXT: Record<Availability, string> = {
+  available: 'Ready',
+  downloadable: 'Downloads on first use',
+  downloading: 'Downloading',
+  unavailable: 'Unavailable on this device',
+  missing: 'Not enabled',
+};
+
+async function checkAvailability(name: string, options?: any): Promise<Availability> {
+  const Cls = (globalThis as any)[name];
+  if (!Cls || typeof Cls.availability !== 'function') return 'missing';
+  try {
+    return await Cls.availability(options);
+  } catch {
+    return 'unavailable';
+  }
+}
+
+function ModelStatusPanel() {
+  const [status, setStatus] = useState<Record<string, Availability> | null>(null);
+
+  useEffect(() => {
+    Promise.all(MODEL_APIS.map(async (api) => [api.name, await checkAvailability(api.name, api.options)] as const))
+      .then((entries) => setStatus(Object.fromEntries(entries)));
+  }, []);
+
+  if (!status) return <div style={{ fontSize: 12, color: '#555' }}>Checking models…</div>;
+  const missing = MODEL_APIS.filter((api) => status[api.name] === 'missing');
+  const unavailable = MODEL_APIS.some((api) => status[api.name] === 'unavailable');
+  return (
+    <div style={{ fontSize: 12 }}>
+      {MODEL_APIS.map((api) => (
+        <div key={api.name} style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+          <span>{api.label}</span>
+          <span style={{ color: status[api.name] === 'available' ? '#15803d' : status[api.name] === 'missing' || status[api.name] === 'unavailable' ? '#b91c1c' : '#555' }}>
+            {AVAILABILITY_TEXT[status[api.name]]}
+          </span>
+        </div>
+      ))}
+      {missing.length > 0 && (
+        <p style={{ color: '#555', margin: '6px 0 0' }}>
+          Turn on {missing.map((api) => `chrome://flags/#${api.flag}`).join(', ')} and relaunch Chrome.
+        </p>
+      )}
+      {unavailable && (
+        <p style={{ color: '#555', margin: '6px 0 0' }}>
+          Gemini Nano needs desktop Chrome on Windows 10/11, macOS 13+, Linux or a Chromebook Plus, at least
+          22 GB free disk space and a GPU with more than 4 GB of VRAM (or 16 GB RAM). chrome://on-device-internals shows the model state.
+        </p>
+      )}
+    </div>
+  );
+}
 
 function Popup() {
   const [realtime, setRealtime] = useState(true);
-  const [defaultTone, setDefaultTone] = useState<'neutral'|'casual'|'formal'>('neutral');
+  const [origin, setOrigin] = useState<string | null>(null);
+  const [site, setSite] = useState<SiteState>({});
+  const [usage, setUsage] = useState<UsageStats | null>(null);
 
   useEffect(() => {
-    const load = () => {
-      try {
-        chrome.storage.sync.get(['realtimeProofread', 'defaultTone'], (res) => {
-          if (typeof res?.realtimeProofread === 'boolean') setRealtime(res.realtimeProofread);
-          if (res?.defaultTone) setDefaultTone(res.defaultTone);
-        });
-      } catch {}
+    const load = async () => {
+      const o = await activeOrigin();
+      setOrigin(o);
+      const state = await sendToBackground<StateResponse>({ type: 'getState', origin: o || '' });
+      if (state) {
+        setRealtime(state.settings.realtimeProofread);
+        setSite(state.site);
+      }
+      setUsage(await sendToBackground<UsageStats>({ type: 'getUsage' }));
     };
-    // Defer storage read until after first paint to keep popup snappy
+    // Defer the worker round-trip until after first paint to keep popup snappy
     if (typeof (window as any).requestIdleCallback === 'function') {
       (window as any).requestIdleCallback(load, { timeout: 250 });
     } else {
@@ -22,25 +108,51 @@ function Popup() {
     }
   }, []);
 
-  const save = () => {
-    chrome.storage.sync.set({ realtimeProofread: realtime, defaultTone });
+  // Quick toggles apply immediately; the worker pushes the change to open tabs
+  const toggleRealtime = (next: boolean) => {
+    setRealtime(next);
+    sendToBackground({ type: 'updateSettings', patch: { realtimeProofread: next } });
   };
 
+  const updateSite = async (patch: SitePatch) => {
+    if (!origin) return;
+    const next = await sendToBackground<SiteState>({ type: 'updateSite', origin, patch });
+    if (next) setSite(next);
+  };
+
+  const resetUsage = async () => {
+    setUsage(await sendToBackground<UsageStats>({ type: 'resetUsage' }));
+  };
+
+  const counts = usage?.counts || {};
+
   return (
     <div style={{ padding: 12, width: 300, fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif' }}>
   <h3>Typerra</h3>
+      {origin && (
+        <div style={{ marginBottom: 12 }}>
+          <div style={{ fontWeight: 600, fontSize: 12, marginBottom: 4 }}>On {new URL(origin).hostname}</div>
+          <SiteRuleFields site={site} onChange={updateSite} />
+        </div>
+      )}
       <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-        <input type="checkbox" checked={realtime} onChange={(e)=>setRealtime(e.target.checked)} /> Realtime proofread
+        <input type="checkbox" checked={realtime} onChange={(e)=>toggleRealtime(e.target.checked)} /> Realtime proofread
       </label>
+      <button onClick={() => chrome.runtime.openOptionsPage()} style={{ marginTop: 12 }}>All settings…</button>
       <div style={{ marginTop: 12 }}>
-        <label>Default writer tone: </label>
-        <select value={defaultTone} onChange={(e)=>setDefaultTone(e.target.value as any)}>
-          <option value="formal">Formal</option>
-          <option value="neutral">Neutral</option>
-          <option value="casual">Casual</option>
-        </select>
+        <div style={{ fontWeight: 600, fontSize: 12, marginBottom: 4 }}>Models</div>
+        <ModelStatusPanel />
       </div>
-      <button onClick={save} style={{ marginTop: 12 }}>Save</button>
+      {usage && (
+        <div style={{ marginTop: 12, fontSize: 12, color: '#555' }}>
+          <div>
+            Since {new Date(usage.since).toLocaleDateString()}: {counts.proofread || 0} proofreads, {counts.rewrite || 0} rewrites, {counts.write || 0} drafts, {counts.translate || 0} translations,
+            {' '}{counts.summarize || 0} summaries, {counts.ask || 0} custom instructions,
+            {' '}{(counts.apply || 0) + (counts.suggestion || 0)} changes applied
+          </div>
+          <button onClick={resetUsage} style={{ marginTop: 4, fontSize: 11 }}>Reset stats</button>
+        </div>
+      )}
       <p style={{ fontSize: 12, color: '#555' }}>To use Writer/Rewriter/Proofreader, make sure you enrolled in the origin trials and added tokens to manifest.json.</p>
     </div>
   );
@@ -0,0 +1,25 @@
+// Languages offered in the settings and the panel's language selector, as BCP 47 base codes.
+// Which of them a model actually supports is up to Chrome; unsupported ones fail with a clear error.
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  ja: 'Japanese',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ru: 'Russian',
+  zh: 'Chinese',
+  ko: 'Korean',
+};
+
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code;
+}
+
+// "en-US" -> "en"
+export function baseLanguage(code: string): string {
+  return code.toLowerCase().split(/[-_]/)[0];
+}
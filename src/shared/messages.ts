@@ -0,0 +1,70 @@
+// chrome.runtime message shapes between the background service worker and its clients
+// (content scripts in every frame, and the popup).
+
+import type { ModelStatusEvent } from './models';
+import type { Dictionary, IgnoreRule, RewriteOptions, Settings, ShortcutAction, SitePatch, SiteState, UsageAction, UsageStats } from './settings';
+
+// Client -> background (chrome.runtime.sendMessage)
+export type BackgroundRequest =
+  | { type: 'getState'; origin: string }
+  | { type: 'updateSettings'; patch: Partial<Settings> }
+  | { type: 'getSites' }
+  | { type: 'updateSite'; origin: string; patch: SitePatch }
+  | { type: 'removeSite'; origin: string }
+  | { type: 'ignoreField'; origin: string; key: string }
+  | { type: 'recordUsage'; action: UsageAction }
+  | { type: 'getUsage' }
+  | { type: 'resetUsage' }
+  | { type: 'getLastRewrite' }
+  | { type: 'setLastRewrite'; options: RewriteOptions }
+  | { type: 'getDictionary' }
+  | { type: 'addToDictionary'; words: string[] }
+  | { type: 'removeFromDictionary'; words: string[] }
+  | { type: 'addIgnoreRule'; rule: IgnoreRule }
+  | { type: 'removeIgnoreRule'; rule: IgnoreRule };
+
+export type StateResponse = { settings: Settings; site: SiteState; dictionary: Dictionary };
+
+// Background -> content scripts (chrome.tabs.sendMessage)
+export type TabMessage =
+  | { type: 'settingsChanged'; settings: Settings }
+  | { type: 'siteChanged'; origin: string; site: SiteState }
+  | { type: 'dictionaryChanged'; dictionary: Dictionary }
+  | { type: 'command'; command: TyperraCommand }
+  | { type: 'contextAction'; action: ContextAction };
+
+export type TyperraCommand = ShortcutAction;
+
+// Context menu actions on the focused field's selection; tone/length use the Rewriter option values
+export type ContextAction =
+  | { kind: 'proofread' }
+  | ({ kind: 'rewrite' } & RewriteOptions)
+  | { kind: 'write' };
+
+// Model calls when settings.modelHost is 'shared': each content script opens a MODEL_CLIENT_PORT to the
+// worker, which relays to the offscreen document's MODEL_HOST_PORT. Same shapes as the in-page bridge:
+// id 0 carries fire-and-forget requests (cancel) and unsolicited status events.
+export const MODEL_CLIENT_PORT = 'typerra-models';
+export const MODEL_HOST_PORT = 'typerra-model-host';
+
+export type ModelRequest = { id: number; method: string; params: any };
+export type ModelResponse =
+  | { id: number; result?: any; error?: string; partial?: string }
+  | ({ id: 0; event: 'model-status' } & ModelStatusEvent);
+
+// Worker -> offscreen document (chrome.runtime.sendMessage): reconnect after a worker restart
+export type ModelHostWake = { type: 'connectModelHost' };
+
+// Error prefix when the shared host can't be started or dropped the call; callers retry in the page
+export const MODEL_HOST_UNAVAILABLE = 'Model host unavailable';
+
+// Resolves to null when the worker fails or is unreachable (extension reloaded, context invalidated)
+export async function sendToBackground<T>(msg: BackgroundRequest): Promise<T | null> {
+  try {
+    const res = await chrome.runtime.sendMessage(msg);
+    if (!res || (typeof res === 'object' && 'error' in res)) return null;
+    return res as T;
+  } catch {
+    return null;
+  }
+}
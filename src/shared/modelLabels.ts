@@ -0,0 +1,11 @@
+// Display names for the built-in models, keyed like model status events and ModelUnavailableError.
+// Kept apart from models.ts so the content script can show them without bundling the model code.
+
+export const MODEL_LABELS: Record<string, string> = {
+  proofreader: 'Proofreader',
+  writer: 'Writer',
+  rewriter: 'Rewriter',
+  translator: 'Translator',
+  summarizer: 'Summarizer',
+  languagemodel: 'Prompt API',
+};
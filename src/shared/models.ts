@@ -0,0 +1,681 @@
+// Built-in AI models (Writer, Rewriter, Proofreader, Translator, Summarizer, LanguageModel) and the
+// calls the content script makes on them. Runs wherever those APIs are exposed: the in-page script
+// (one set of models per tab) or the offscreen model host (one set per browser). Each host owns the
+// transport, cancellation and idle timers; status events go to the listener it registers.
+
+import { MODEL_LABELS } from './modelLabels';
+
+// Types are not available here; we use any and feature-detect
+
+// Per-call context handed to handleModelCall(): abort signal for `cancel`, partial sink for streaming
+export type CallContext = { signal: AbortSignal; onPartial: (text: string) => void };
+// Mirrors ProofreadRange in the content script
+export type ProofreadRange = { start: number; end: number; replacement?: string; type?: string; explanation?: string };
+
+declare global {
+  interface Window {
+    Rewriter?: any;
+    Writer?: any;
+    Proofreader?: any;
+    Translator?: any;
+    Summarizer?: any;
+    LanguageModel?: any;
+    __GX_WARMUP_STARTED__?: boolean;
+  }
+}
+
+// Drain a streaming API result, reporting the accumulated text after every chunk.
+// Older Chrome builds emit the full text so far per chunk, newer ones emit deltas. The second chunk
+// tells which (a cumulative one repeats the first); a stream never switches, so later deltas that
+// happen to start with the text so far aren't mistaken for the whole text.
+async function readStream(stream: any, onPartial: (text: string) => void): Promise<string> {
+  let out = '';
+  let cumulative: boolean | null = null;
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const piece = String(value ?? '');
+      if (cumulative === null && out) cumulative = piece.startsWith(out);
+      out = cumulative ? piece : out + piece;
+      onPartial(out);
+    }
+  } finally {
+    try { reader.releaseLock(); } catch {}
+  }
+  return out;
+}
+
+async function ensureAvailability(Cls: any, options?: any): Promise<'available' | 'downloadable' | 'downloading' | 'unavailable'> {
+  // Runs before every model is created, so missing APIs are reported through model status, not logged
+  if (!Cls || typeof Cls.availability !== 'function') return 'unavailable';
+  try {
+    return await Cls.availability(options);
+  } catch (e) {
+  console.error('[Typerra][MODELS] availability check failed', e);
+    return 'unavailable';
+  }
+}
+
+// Model lifecycle for the panel: "downloading" (with progress 0..1) while a model is fetched,
+// "ready" once created, "unavailable" with a reason when it can't run. Hosts forward these
+// unsolicited (id 0) as `event: 'model-status'`.
+export type ModelStatus = { status: 'downloading' | 'ready' | 'unavailable'; progress?: number; reason?: string };
+export type ModelStatusEvent = ModelStatus & { model: string; language: string };
+
+let statusListener: (event: ModelStatusEvent) => void = () => {};
+
+export function onModelStatus(listener: (event: ModelStatusEvent) => void) {
+  statusListener = listener;
+}
+
+function postModelStatus(model: string, language: string, status: ModelStatus) {
+  try { statusListener({ model, language, ...status }); } catch {}
+}
+
+// Carries the short reason for the panel next to the full message for the request's error
+class ModelUnavailableError extends Error {
+  constructor(model: string, readonly reason: string) {
+    super(`${MODEL_LABELS[model] || model} unavailable: ${reason}.`);
+  }
+}
+
+async function checkModel(model: string, Cls: any, options: any, language: string): Promise<void> {
+  const avail = await ensureAvailability(Cls, options);
+  if (avail === 'unavailable') {
+    throw new ModelUnavailableError(model, Cls ? `not available for ${language} on this device` : 'not supported in this browser');
+  }
+  // 'downloadable' or 'downloading': create() fetches the model first
+  if (avail !== 'available') postModelStatus(model, language, { status: 'downloading', progress: 0 });
+}
+
+function monitorDownload(model: string, language: string) {
+  return (m: any) => {
+    m.addEventListener('downloadprogress', (e: any) => {
+      const { loaded, total } = e || {};
+      // Current builds report loaded as a 0..1 fraction; older ones sent bytes with a total
+      const progress = total && total !== 1 ? loaded / total : loaded;
+      postModelStatus(model, language, { status: 'downloading', progress: Math.max(0, Math.min(1, Number(progress) || 0)) });
+    });
+  };
+}
+
+// Unavailable models and create() failures that aren't cancellations, e.g. a download that needs a
+// user gesture or failed
+function reportFailure(model: string, language: string, e: any) {
+  if ((e?.name || '') === 'AbortError') return;
+  const reason = e instanceof ModelUnavailableError ? e.reason : String(e?.message || e);
+  postModelStatus(model, language, { status: 'unavailable', reason });
+}
+
+// Model instances keyed by language; a field in Spanish and one in English each get their own.
+// Creation locks prevent duplicate instances under concurrent calls.
+// Writer and Rewriter tone and length are fixed at creation, so they are part of the key: "lang:tone:length"
+const writers = new Map<string, any>();
+const rewriters = new Map<string, any>();
+const proofreaders = new Map<string, any>();
+const writersCreating = new Map<string, Promise<any>>();
+const rewritersCreating = new Map<string, Promise<any>>();
+const proofreadersCreating = new Map<string, Promise<any>>();
+// Translators are keyed by "source>target"
+const translators = new Map<string, any>();
+const translatorsCreating = new Map<string, Promise<any>>();
+// Summarizer type and length are fixed at creation, so they are part of the key: "lang:type:length"
+const summarizers = new Map<string, any>();
+const summarizersCreating = new Map<string, Promise<any>>();
+// Prompt API sessions keep their conversation, so each `ask` runs in a clone of the per-language base
+const promptSessions = new Map<string, any>();
+const promptSessionsCreating = new Map<string, Promise<any>>();
+let cachedDetector: any | null = null;
+let detectorCreating: Promise<any | null> | null = null;
+
+// Models run in English unless the content script says otherwise
+const DEFAULT_LANGUAGE = 'en';
+
+function safeDispose(obj: any) {
+  try {
+    if (!obj) return;
+    if (typeof obj.dispose === 'function') { obj.dispose(); return; }
+    if (typeof obj.close === 'function') { obj.close(); return; }
+    if (typeof obj.destroy === 'function') { obj.destroy(); return; }
+    if (typeof obj.abort === 'function') { obj.abort(); return; }
+  } catch {}
+}
+
+function disposeAll(cache: Map<string, any>, creating: Map<string, Promise<any>>) {
+  for (const inst of cache.values()) {
+    try { safeDispose(inst); } catch {}
+  }
+  cache.clear();
+  // Also clear creation locks so future calls can recreate cleanly
+  creating.clear();
+}
+
+export function disposeModels() {
+  disposeAll(writers, writersCreating);
+  disposeAll(rewriters, rewritersCreating);
+  disposeAll(proofreaders, proofreadersCreating);
+  disposeAll(translators, translatorsCreating);
+  disposeAll(summarizers, summarizersCreating);
+  disposeAll(promptSessions, promptSessionsCreating);
+  try { safeDispose(cachedDetector); } catch {}
+  cachedDetector = null;
+  detectorCreating = null;
+}
+
+export function disposeNonProofreader() {
+  disposeAll(writers, writersCreating);
+  disposeAll(rewriters, rewritersCreating);
+  disposeAll(translators, translatorsCreating);
+  disposeAll(summarizers, summarizersCreating);
+  disposeAll(promptSessions, promptSessionsCreating);
+  // Keep proofreader instances in memory
+}
+
+// Build a standardized proofread payload from various API result shapes
+export function buildProofreadPayload(base: string, apiResult: any): ProofreadPayload {
+  const corrections: any[] = Array.isArray(apiResult?.corrections) ? apiResult.corrections : [];
+  let corrected: string = String(apiResult?.corrected || apiResult?.text || '');
+  let ranges: ProofreadRange[] = [];
+
+  // Normalize ranges for consumers (correction spans)
+  try {
+    type Corr = { start?: number; end?: number; range?: { start?: number; end?: number }; offset?: number; length?: number; replacement?: string; replacementText?: string; suggestions?: any[]; suggestion?: string; text?: string; correction?: string };
+    ranges = (corrections as Corr[])
+      .map((c) => {
+        const start = (typeof c.start === 'number') ? c.start
+          : (typeof c.offset === 'number') ? c.offset
+          : (typeof (c as any).startIndex === 'number') ? (c as any).startIndex
+          : (typeof c.range?.start === 'number') ? c.range!.start
+          : (typeof (c as any).rangeStart === 'number') ? (c as any).rangeStart
+          : undefined;
+        const end = (typeof c.end === 'number') ? c.end
+          : (typeof (c as any).endIndex === 'number') ? (c as any).endIndex
+          : (typeof c.length === 'number' && typeof start === 'number') ? start + c.length
+          : (typeof c.range?.end === 'number') ? c.range!.end
+          : (typeof (c as any).rangeEnd === 'number') ? (c as any).rangeEnd
+          : undefined;
+        const repl = (typeof (c as any).correction === 'string') ? (c as any).correction
+          : (typeof c.replacement === 'string') ? c.replacement
+          : (typeof c.replacementText === 'string') ? c.replacementText
+          : (typeof c.suggestion === 'string') ? c.suggestion
+          : (Array.isArray(c.suggestions) && c.suggestions.length && typeof c.suggestions[0]?.replacement === 'string') ? c.suggestions[0].replacement
+          : (Array.isArray(c.suggestions) && c.suggestions.length && typeof c.suggestions[0]?.text === 'string') ? c.suggestions[0].text
+          : undefined;
+        const types: string[] = Array.isArray((c as any).types) ? (c as any).types.filter((t: any) => typeof t === 'string')
+          : (typeof (c as any).type === 'string') ? [(c as any).type]
+          : [];
+        const explanation = (typeof (c as any).explanation === 'string' && (c as any).explanation) ? (c as any).explanation : undefined;
+        return (typeof start === 'number' && typeof end === 'number')
+          ? { start, end, replacement: repl, type: types.length ? types.join(', ') : undefined, explanation }
+          : null;
+      })
+      .filter(Boolean) as ProofreadRange[];
+  } catch (e) {
+  console.warn('[Typerra][MODELS] Failed to normalize ranges', e);
+    ranges = [];
+  }
+
+  // If corrected text missing, attempt to synthesize using ranges
+  if (!corrected && ranges.length > 0) {
+    try {
+      const normalized = [...ranges].sort((a, b) => b.start - a.start);
+      let out = base;
+      for (const corr of normalized) {
+        const s = Math.max(0, Math.min(out.length, corr.start));
+        const e = Math.max(s, Math.min(out.length, corr.end));
+        out = out.slice(0, s) + (typeof corr.replacement === 'string' ? corr.replacement : out.slice(s, e)) + out.slice(e);
+      }
+      corrected = out;
+    } catch (e) {
+  console.warn('[Typerra][MODELS] Failed to derive corrected text from corrections', e);
+    }
+  }
+
+  if (!corrected) corrected = base;
+  return { corrected, corrections, ranges };
+}
+
+// Unset tone/length take the API's defaults, so warmup and a call with those values share an instance
+async function getWriter(tone = 'neutral', length = 'short', language = DEFAULT_LANGUAGE): Promise<any> {
+  const key = `${language}:${tone}:${length}`;
+  const cached = writers.get(key);
+  if (cached) return cached;
+  const creating = writersCreating.get(key);
+  if (creating) return creating;
+  const languages = { expectedInputLanguages: [language], expectedContextLanguages: [language], outputLanguage: language };
+  const p = (async () => {
+    await checkModel('writer', (window as any).Writer, languages, language);
+    const inst = await (window as any).Writer.create({
+      tone,
+      length,
+      monitor: monitorDownload('writer', language),
+      ...languages,
+    });
+    writers.set(key, inst);
+    postModelStatus('writer', language, { status: 'ready' });
+    writersCreating.delete(key);
+    return inst;
+  })().catch((e) => { writersCreating.delete(key); reportFailure('writer', language, e); throw e; });
+  writersCreating.set(key, p);
+  return p;
+}
+
+async function getRewriter(tone = 'as-is', length = 'as-is', language = DEFAULT_LANGUAGE): Promise<any> {
+  const key = `${language}:${tone}:${length}`;
+  const cached = rewriters.get(key);
+  if (cached) return cached;
+  const creating = rewritersCreating.get(key);
+  if (creating) return creating;
+  const languages = { expectedInputLanguages: [language], expectedContextLanguages: [language], outputLanguage: language };
+  const p = (async () => {
+    await checkModel('rewriter', (window as any).Rewriter, languages, language);
+    const inst = await (window as any).Rewriter.create({
+      tone,
+      length,
+      monitor: monitorDownload('rewriter', language),
+      ...languages,
+    });
+    rewriters.set(key, inst);
+    postModelStatus('rewriter', language, { status: 'ready' });
+    rewritersCreating.delete(key);
+    return inst;
+  })().catch((e) => { rewritersCreating.delete(key); reportFailure('rewriter', language, e); throw e; });
+  rewritersCreating.set(key, p);
+  return p;
+}
+
+// Every instance asks for correction types and explanations (shown in the panel and the bubble),
+// so the language alone is the key
+async function getProofreader(language = DEFAULT_LANGUAGE): Promise<any> {
+  const cached = proofreaders.get(language);
+  if (cached) return cached;
+  const creating = proofreadersCreating.get(language);
+  if (creating) return creating;
+  const options = { expectedInputLanguages: [language], includeCorrectionTypes: true, includeCorrectionExplanations: true };
+  const p = (async () => {
+    await checkModel('proofreader', (window as any).Proofreader, options, language);
+    const inst = await (window as any).Proofreader.create({
+      ...options,
+      monitor: monitorDownload('proofreader', language),
+    });
+    proofreaders.set(language, inst);
+    postModelStatus('proofreader', language, { status: 'ready' });
+    proofreadersCreating.delete(language);
+    return inst;
+  })().catch((e) => { proofreadersCreating.delete(language); reportFailure('proofreader', language, e); throw e; });
+  proofreadersCreating.set(language, p);
+  return p;
+}
+
+async function getTranslator(sourceLanguage: string, targetLanguage: string): Promise<any> {
+  const key = `${sourceLanguage}>${targetLanguage}`;
+  const cached = translators.get(key);
+  if (cached) return cached;
+  const creating = translatorsCreating.get(key);
+  if (creating) return creating;
+  const p = (async () => {
+    await checkModel('translator', (window as any).Translator, { sourceLanguage, targetLanguage }, key);
+    const inst = await (window as any).Translator.create({
+      sourceLanguage,
+      targetLanguage,
+      monitor: monitorDownload('translator', key),
+    });
+    translators.set(key, inst);
+    postModelStatus('translator', key, { status: 'ready' });
+    translatorsCreating.delete(key);
+    return inst;
+  })().catch((e) => { translatorsCreating.delete(key); reportFailure('translator', key, e); throw e; });
+  translatorsCreating.set(key, p);
+  return p;
+}
+
+async function getSummarizer(type: string, length: string, language = DEFAULT_LANGUAGE): Promise<any> {
+  const key = `${language}:${type}:${length}`;
+  const cached = summarizers.get(key);
+  if (cached) return cached;
+  const creating = summarizersCreating.get(key);
+  if (creating) return creating;
+  const options = {
+    type,
+    length,
+    format: 'plain-text',
+    expectedInputLanguages: [language],
+    expectedContextLanguages: [language],
+    outputLanguage: language,
+  };
+  const p = (async () => {
+    await checkModel('summarizer', (window as any).Summarizer, options, language);
+    const inst = await (window as any).Summarizer.create({
+      ...options,
+      monitor: monitorDownload('summarizer', language),
+    });
+    summarizers.set(key, inst);
+    postModelStatus('summarizer', language, { status: 'ready' });
+    summarizersCreating.delete(key);
+    return inst;
+  })().catch((e) => { summarizersCreating.delete(key); reportFailure('summarizer', language, e); throw e; });
+  summarizersCreating.set(key, p);
+  return p;
+}
+
+export const ASK_SYSTEM_PROMPT =
+  'You are a writing assistant working on text from a text field. Apply the instruction to the text. ' +
+  'Reply with only the resulting text: no preamble, explanations, quotes or code fences. ' +
+  'Keep the language of the text unless the instruction asks for another one.';
+
+async function getPromptSession(language = DEFAULT_LANGUAGE): Promise<any> {
+  const cached = promptSessions.get(language);
+  if (cached) return cached;
+  const creating = promptSessionsCreating.get(language);
+  if (creating) return creating;
+  const options = {
+    expectedInputs: [{ type: 'text', languages: [language] }],
+    expectedOutputs: [{ type: 'text', languages: [language] }],
+  };
+  const p = (async () => {
+    await checkModel('languagemodel', (window as any).LanguageModel, options, language);
+    const inst = await (window as any).LanguageModel.create({
+      ...options,
+      initialPrompts: [{ role: 'system', content: ASK_SYSTEM_PROMPT }],
+      monitor: monitorDownload('languagemodel', language),
+    });
+    promptSessions.set(language, inst);
+    postModelStatus('languagemodel', language, { status: 'ready' });
+    promptSessionsCreating.delete(language);
+    return inst;
+  })().catch((e) => { promptSessionsCreating.delete(language); reportFailure('languagemodel', language, e); throw e; });
+  promptSessionsCreating.set(language, p);
+  return p;
+}
+
+// Built-in LanguageDetector; null when the browser has none, so the content script falls back to
+// its own guess. The detector model is small and kept until the next full dispose.
+async function getLanguageDetector(): Promise<any | null> {
+  if (cachedDetector) return cachedDetector;
+  if (detectorCreating) return detectorCreating;
+  const p = (async () => {
+    const Cls = (window as any).LanguageDetector;
+    if (!Cls || typeof Cls.create !== 'function') return null;
+    if (await ensureAvailability(Cls) === 'unavailable') return null;
+    cachedDetector = await Cls.create();
+    return cachedDetector;
+  })().finally(() => { detectorCreating = null; });
+  detectorCreating = p;
+  return p;
+}
+
+// Language the content script resolved for the field; anything malformed falls back to English
+function languageParam(params: any): string {
+  const lang = params?.language;
+  return typeof lang === 'string' && /^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(lang) ? lang : DEFAULT_LANGUAGE;
+}
+
+function mapWriterTone(t: string | undefined) {
+  if (!t) return undefined;
+  if (t === 'neutral' || t === 'casual' || t === 'formal') return t;
+  return undefined;
+}
+function mapWriterLength(l: string | undefined) {
+  if (!l) return undefined;
+  if (l === 'short' || l === 'medium' || l === 'long') return l;
+  return undefined;
+}
+function mapRewriterTone(t: string | undefined) {
+  if (!t) return undefined;
+  if (t === 'more-casual' || t === 'as-is' || t === 'more-formal') return t;
+  return undefined;
+}
+function mapRewriterLength(l: string | undefined) {
+  if (!l) return undefined;
+  if (l === 'shorter' || l === 'as-is' || l === 'longer') return l;
+  return undefined;
+}
+function mapSummaryType(t: string | undefined) {
+  if (t === 'tldr' || t === 'key-points' || t === 'headline') return t;
+  return 'tldr';
+}
+function mapSummaryLength(l: string | undefined) {
+  if (l === 'short' || l === 'medium' || l === 'long') return l;
+  return 'short';
+}
+
+function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) throw new DOMException('Request cancelled', 'AbortError');
+}
+
+// Last model call, for the host's idle timer
+let lastActivityAt = Date.now();
+
+export function lastModelActivity(): number {
+  return lastActivityAt;
+}
+
+// Normalized requests handed to a provider; handleModelCall validates and maps the raw params.
+// stream: report partial output through ctx.onPartial as it is generated.
+export type WriteRequest = { prompt: string; tone?: string; length?: string; context?: string; language: string; stream: boolean };
+export type RewriteRequest = { text: string; tone?: string; length?: string; instruction: string; language: string; stream: boolean };
+export type TranslateRequest = { text: string; sourceLanguage: string; targetLanguage: string; stream: boolean };
+export type SummarizeRequest = { text: string; type: string; length: string; language: string; stream: boolean };
+export type AskRequest = { text: string; instruction: string; language: string; stream: boolean };
+export type ProofreadPayload = { corrected: string; corrections: any[]; ranges: ProofreadRange[] };
+
+// A backend for the model calls: Chrome's built-in AI below, or an OpenAI-compatible server
+// (shared/openaiProvider.ts). Every provider returns the same shapes, so callers can't tell them apart.
+export type ModelProvider = {
+  // Create (and download) what a panel tab needs ahead of its first call
+  ensure(model: string, params: any, language: string): Promise<void>;
+  write(req: WriteRequest, ctx: CallContext): Promise<string>;
+  rewrite(req: RewriteRequest, ctx: CallContext): Promise<string>;
+  translate(req: TranslateRequest, ctx: CallContext): Promise<string>;
+  summarize(req: SummarizeRequest, ctx: CallContext): Promise<string>;
+  ask(req: AskRequest, ctx: CallContext): Promise<string>;
+  proofread(text: string, language: string, ctx: CallContext): Promise<ProofreadPayload>;
+};
+
+export const builtinProvider: ModelProvider = {
+  async ensure(model, params, language) {
+    if (model === 'proofreader') { await getProofreader(language); return; }
+    if (model === 'writer') { await getWriter(mapWriterTone(params?.tone), mapWriterLength(params?.length), language); return; }
+    if (model === 'rewriter') { await getRewriter(mapRewriterTone(params?.tone), mapRewriterLength(params?.length), language); return; }
+    if (model === 'languagemodel') { await getPromptSession(language); return; }
+    if (model === 'summarizer') { await getSummarizer(mapSummaryType(params?.type), mapSummaryLength(params?.length), language); return; }
+    if (model === 'translator') { await getTranslator(language, languageParam({ language: params?.targetLanguage })); return; }
+    throw new Error('Unknown model: ' + model);
+  },
+  async write({ prompt, tone, length, context, language, stream }, { signal, onPartial }) {
+    const writer = await getWriter(tone, length, language);
+    throwIfCancelled(signal);
+    if (stream && typeof writer.writeStreaming === 'function') {
+      return readStream(writer.writeStreaming(prompt, { context, signal }), onPartial);
+    }
+    const res = await writer.write(prompt, { context, signal });
+    return String(res);
+  },
+  async rewrite({ text, tone, length, instruction, language, stream }, { signal, onPartial }) {
+    const rewriter = await getRewriter(tone, length, language);
+    throwIfCancelled(signal);
+    if (stream && typeof rewriter.rewriteStreaming === 'function') {
+      const res = await readStream(
+        rewriter.rewriteStreaming(text, { context: instruction, signal }),
+        (partial) => onPartial(partial.trimStart())
+      );
+      return res.trim();
+    }
+    const res = await rewriter.rewrite(text, { context: instruction, signal });
+    return String(res).trim();
+  },
+  async ask({ text, instruction, language, stream }, { signal, onPartial }) {
+    const base = await getPromptSession(language);
+    throwIfCancelled(signal);
+    const session = await base.clone({ signal });
+    const prompt = `Instruction: ${instruction}\n\nText:\n${text}`;
+    try {
+      if (stream && typeof session.promptStreaming === 'function') {
+        const res = await readStream(session.promptStreaming(prompt, { signal }), (partial) => onPartial(partial.trimStart()));
+        return res.trim();
+      }
+      const res = await session.prompt(prompt, { signal });
+      return String(res).trim();
+    } finally {
+      safeDispose(session);
+    }
+  },
+  async summarize({ text, type, length, language, stream }, { signal, onPartial }) {
+    const summarizer = await getSummarizer(type, length, language);
+    throwIfCancelled(signal);
+    if (stream && typeof summarizer.summarizeStreaming === 'function') {
+      const res = await readStream(summarizer.summarizeStreaming(text, { signal }), (partial) => onPartial(partial.trimStart()));
+      return res.trim();
+    }
+    const res = await summarizer.summarize(text, { signal });
+    return String(res).trim();
+  },
+  async translate({ text, sourceLanguage, targetLanguage, stream }, { signal, onPartial }) {
+    const translator = await getTranslator(sourceLanguage, targetLanguage);
+    throwIfCancelled(signal);
+    if (stream && typeof translator.translateStreaming === 'function') {
+      return readStream(translator.translateStreaming(text, { signal }), onPartial);
+    }
+    const res = await translator.translate(text, { signal });
+    return String(res);
+  },
+  async proofread(text, language, { signal }) {
+    const proofreader = await getProofreader(language);
+    throwIfCancelled(signal);
+    const result = await proofreader.proofread(text, { signal });
+    return buildProofreadPayload(text, result);
+  },
+};
+
+export const DEFAULT_REWRITE_INSTRUCTION =
+  'Only rewrite the provided text according to the requested tone/length. Preserve the original meaning and information. Do not add new ideas, remove content, or include explanations. Return only the rewritten text.';
+
+// Everything except the host-level methods (cancel, ping, configure), which each host handles itself.
+// Built-in AI unless the host passes another provider.
+export async function handleModelCall(method: string, params: any, ctx: CallContext, provider: ModelProvider = builtinProvider) {
+  const { signal } = ctx;
+  const stream = !!params?.stream;
+  switch (method) {
+    case 'warmup': {
+      lastActivityAt = Date.now();
+      await warmupModels();
+      return { ok: true };
+    }
+    case 'ensure': {
+      lastActivityAt = Date.now();
+      const which = String(params?.model || '').toLowerCase();
+      await provider.ensure(which, params, languageParam(params));
+      return { ok: true, model: which };
+    }
+    case 'detectLanguage': {
+      // Ranked { language, confidence } candidates, or null without a built-in detector
+      const detector = await getLanguageDetector();
+      if (!detector) return null;
+      const results = await detector.detect(String(params?.text || ''), { signal });
+      return (Array.isArray(results) ? results : []).slice(0, 5).map((r: any) => ({
+        language: String(r?.detectedLanguage || ''),
+        confidence: Number(r?.confidence) || 0,
+      }));
+    }
+    case 'dispose': {
+      disposeModels();
+      return { ok: true };
+    }
+    case 'disposeNonProofreader': {
+      disposeNonProofreader();
+      return { ok: true };
+    }
+    case 'write': {
+      lastActivityAt = Date.now();
+      const { prompt, tone, length, pageContext } = params || {};
+      return provider.write({
+        prompt: String(prompt || ''),
+        tone: mapWriterTone(tone),
+        length: mapWriterLength(length),
+        context: pageContext ? String(pageContext) : undefined,
+        language: languageParam(params),
+        stream,
+      }, ctx);
+    }
+    case 'rewrite': {
+      lastActivityAt = Date.now();
+      const { text, tone, length, context, pageContext } = params || {};
+      const instruction = [
+        String(context || DEFAULT_REWRITE_INSTRUCTION),
+        pageContext && `Where the text is used (do not rewrite this):\n${pageContext}`,
+      ].filter(Boolean).join('\n\n');
+      return provider.rewrite({
+        text: String(text || ''),
+        tone: mapRewriterTone(tone),
+        length: mapRewriterLength(length),
+        instruction,
+        language: languageParam(params),
+        stream,
+      }, ctx);
+    }
+    case 'ask': {
+      lastActivityAt = Date.now();
+      const { text, instruction } = params || {};
+      return provider.ask({ text: String(text || ''), instruction: String(instruction || '').trim(), language: languageParam(params), stream }, ctx);
+    }
+    case 'summarize': {
+      lastActivityAt = Date.now();
+      const { text, type, length } = params || {};
+      return provider.summarize({
+        text: String(text || ''),
+        type: mapSummaryType(type),
+        length: mapSummaryLength(length),
+        language: languageParam(params),
+        stream,
+      }, ctx);
+    }
+    case 'translate': {
+      lastActivityAt = Date.now();
+      const { text, targetLanguage } = params || {};
+      return provider.translate({
+        text: String(text || ''),
+        sourceLanguage: languageParam(params),
+        targetLanguage: languageParam({ language: targetLanguage }),
+        stream,
+      }, ctx);
+    }
+    case 'proofread': {
+      lastActivityAt = Date.now();
+      const base = String(params?.text || '');
+      try {
+        return await provider.proofread(base, languageParam(params), ctx);
+      } catch (e: any) {
+        const msg = (e?.message || e || '').toString().toLowerCase();
+        const name = (e?.name || '').toString().toLowerCase();
+        if (name === 'aborterror' || msg.includes('cancel')) {
+          // Gracefully signal cancellation to content script without throwing
+          return { corrected: base, corrections: [], ranges: [], cancelled: true } as any;
+        }
+        throw e;
+      }
+    }
+    default:
+      throw new Error(`Unknown method: ${method}`);
+  }
+}
+
+// Warmup on request (once per host)
+let warmupRunning = false;
+async function warmupModels() {
+  if (warmupRunning || (window as any).__GX_WARMUP_STARTED__) return;
+  warmupRunning = true;
+  (window as any).__GX_WARMUP_STARTED__ = true;
+  try {
+    await Promise.all([
+  getProofreader().catch((e) => console.warn('[Typerra][MODELS] Proofreader warmup skipped', e?.message || e)),
+  getRewriter().catch((e) => console.warn('[Typerra][MODELS] Rewriter warmup skipped', e?.message || e)),
+  getWriter().catch((e) => console.warn('[Typerra][MODELS] Writer warmup skipped', e?.message || e)),
+    ]);
+  } catch (e) {
+  console.warn('[Typerra][MODELS] Warmup error', e);
+  } finally {
+    warmupRunning = false;
+  }
+}
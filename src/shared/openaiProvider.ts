@@ -0,0 +1,202 @@
+// OpenAI-compatible chat completions backend (Ollama, llama.cpp's server, LM Studio or a hosted API)
+// for the features set to 'openai' in Settings.providers. Runs in the background worker, whose host
+// permissions let it reach local servers whatever the page's CORS rules, and keeps the API key out of
+// pages. Prompts ask for what the built-in APIs return, so callers get the same shapes.
+
+import { languageName } from './languages';
+import { ASK_SYSTEM_PROMPT, buildProofreadPayload, type CallContext, type ModelProvider, type ProofreadPayload } from './models';
+import type { OpenAiServer } from './settings';
+
+type ChatMessage = { role: 'system' | 'user'; content: string };
+
+const WRITER_TONES: Record<string, string> = {
+  neutral: 'Use a neutral tone.',
+  casual: 'Use a casual tone.',
+  formal: 'Use a formal tone.',
+};
+const WRITER_LENGTHS: Record<string, string> = {
+  short: 'Keep it short: a few sentences.',
+  medium: 'Aim for a paragraph or two.',
+  long: 'Write several paragraphs.',
+};
+const REWRITE_TONES: Record<string, string> = {
+  'more-formal': 'Make it more formal.',
+  'more-casual': 'Make it more casual.',
+};
+const REWRITE_LENGTHS: Record<string, string> = {
+  shorter: 'Make it shorter.',
+  longer: 'Make it longer.',
+};
+const SUMMARY_TYPES: Record<string, string> = {
+  'tldr': 'Write a short overview of the text (TL;DR).',
+  'key-points': 'List the key points of the text as "- " bullets.',
+  'headline': 'Write a single headline for the text.',
+};
+const SUMMARY_LENGTHS: Record<string, string> = {
+  short: 'Keep it to one to three sentences or bullets.',
+  medium: 'Use up to five sentences or bullets.',
+  long: 'Use up to seven sentences or bullets.',
+};
+
+const ONLY_TEXT = 'Reply with only the resulting text: no preamble, explanations, quotes or code fences.';
+
+const PROOFREAD_PROMPT =
+  'You are a proofreader. Find spelling, grammar and punctuation mistakes in the text the user sends. ' +
+  'Leave correct wording, style and tone alone. Reply with JSON only, in this shape: ' +
+  '{"corrections":[{"original":"the wrong text exactly as it appears","replacement":"the corrected text",' +
+  '"type":"spelling|grammar|punctuation","explanation":"a short reason"}]}. ' +
+  'Keep each "original" as short as possible and use an empty list when there are no mistakes.';
+
+function completionsUrl(server: OpenAiServer): string {
+  return server.baseUrl.trim().replace(/\/+$/, '') + '/chat/completions';
+}
+
+// Server-sent events: "data: {json}" lines carrying content deltas, ending with "data: [DONE]"
+async function readEventStream(body: ReadableStream<Uint8Array>, onPartial: (text: string) => void): Promise<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let out = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') return out;
+        try {
+          const piece = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (typeof piece === 'string' && piece) {
+            out += piece;
+            onPartial(out);
+          }
+        } catch {}
+      }
+    }
+  } finally {
+    try { reader.releaseLock(); } catch {}
+  }
+  return out;
+}
+
+async function chat(
+  server: OpenAiServer,
+  messages: ChatMessage[],
+  { signal, onPartial }: CallContext,
+  opts: { stream: boolean; json?: boolean },
+): Promise<string> {
+  if (!server.baseUrl.trim() || !server.model.trim()) {
+    throw new Error('OpenAI-compatible server not configured: set its URL and model in the Typerra options.');
+  }
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (server.apiKey) headers.Authorization = `Bearer ${server.apiKey}`;
+  const body = {
+    model: server.model.trim(),
+    messages,
+    stream: opts.stream,
+    temperature: 0.3,
+    ...(opts.json ? { response_format: { type: 'json_object' } } : {}),
+  };
+  let res: Response;
+  try {
+    res = await fetch(completionsUrl(server), { method: 'POST', headers, body: JSON.stringify(body), signal });
+  } catch (e: any) {
+    if ((e?.name || '') === 'AbortError') throw e;
+    throw new Error(`Could not reach ${server.baseUrl}: ${e?.message || e}`);
+  }
+  if (!res.ok) {
+    const detail = (await res.text().catch(() => '')).slice(0, 200);
+    throw new Error(`Server error ${res.status}${detail ? `: ${detail}` : ''}`);
+  }
+  if (opts.stream && res.body) return readEventStream(res.body, onPartial);
+  const data = await res.json();
+  return String(data?.choices?.[0]?.message?.content ?? '');
+}
+
+// The model's JSON, tolerating code fences or text around it
+function parseJsonObject(reply: string): any {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try { return JSON.parse(reply.slice(start, end + 1)); } catch { return null; }
+}
+
+// The model quotes the wrong text instead of giving offsets; find each quote in order, skipping ones
+// that can't be found or would overlap an earlier correction
+function locateCorrections(text: string, items: any[]): any[] {
+  const out: any[] = [];
+  let from = 0;
+  for (const item of items) {
+    const original = typeof item?.original === 'string' ? item.original : '';
+    const replacement = item?.replacement;
+    if (!original || typeof replacement !== 'string' || replacement === original) continue;
+    let at = text.indexOf(original, from);
+    if (at < 0) at = text.indexOf(original);
+    if (at < 0 || out.some((c) => at < c.end && at + original.length > c.start)) continue;
+    out.push({
+      start: at,
+      end: at + original.length,
+      correction: replacement,
+      type: typeof item?.type === 'string' ? item.type : undefined,
+      explanation: typeof item?.explanation === 'string' ? item.explanation : undefined,
+    });
+    from = at + original.length;
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+export function openAiProvider(server: OpenAiServer): ModelProvider {
+  const inLanguage = (language: string) => `Write in ${languageName(language)}.`;
+  return {
+    // Nothing to create or download ahead of time
+    async ensure() {},
+    async write({ prompt, tone, length, context, language, stream }, ctx) {
+      const system = [
+        'You are a writing assistant. Write the text the user asks for.',
+        tone && WRITER_TONES[tone],
+        length && WRITER_LENGTHS[length],
+        inLanguage(language),
+        ONLY_TEXT,
+        context && `Context:\n${context}`,
+      ].filter(Boolean).join(' ');
+      return chat(server, [{ role: 'system', content: system }, { role: 'user', content: prompt }], ctx, { stream });
+    },
+    async rewrite({ text, tone, length, instruction, language, stream }, ctx) {
+      const system = [
+        'You rewrite the text the user sends.',
+        tone && REWRITE_TONES[tone],
+        length && REWRITE_LENGTHS[length],
+        inLanguage(language),
+        ONLY_TEXT,
+        instruction,
+      ].filter(Boolean).join(' ');
+      const res = await chat(server, [{ role: 'system', content: system }, { role: 'user', content: text }], { ...ctx, onPartial: (p) => ctx.onPartial(p.trimStart()) }, { stream });
+      return res.trim();
+    },
+    async translate({ text, sourceLanguage, targetLanguage, stream }, ctx) {
+      const system = `Translate the text the user sends from ${languageName(sourceLanguage)} to ${languageName(targetLanguage)}. ` +
+        'Keep formatting and line breaks. Reply with only the translation.';
+      return chat(server, [{ role: 'system', content: system }, { role: 'user', content: text }], ctx, { stream });
+    },
+    async summarize({ text, type, length, language, stream }, ctx) {
+      const system = [SUMMARY_TYPES[type], SUMMARY_LENGTHS[length], inLanguage(language), ONLY_TEXT].filter(Boolean).join(' ');
+      const res = await chat(server, [{ role: 'system', content: system }, { role: 'user', content: text }], { ...ctx, onPartial: (p) => ctx.onPartial(p.trimStart()) }, { stream });
+      return res.trim();
+    },
+    async ask({ text, instruction, stream }, ctx) {
+      const prompt = `Instruction: ${instruction}\n\nText:\n${text}`;
+      const res = await chat(server, [{ role: 'system', content: ASK_SYSTEM_PROMPT }, { role: 'user', content: prompt }], { ...ctx, onPartial: (p) => ctx.onPartial(p.trimStart()) }, { stream });
+      return res.trim();
+    },
+    async proofread(text, language, ctx): Promise<ProofreadPayload> {
+      const system = `${PROOFREAD_PROMPT} The text is in ${languageName(language)}.`;
+      const reply = await chat(server, [{ role: 'system', content: system }, { role: 'user', content: text }], ctx, { stream: false, json: true });
+      const items = parseJsonObject(reply)?.corrections;
+      return buildProofreadPayload(text, { corrections: locateCorrections(text, Array.isArray(items) ? items : []) });
+    },
+  };
+}
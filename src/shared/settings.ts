@@ -0,0 +1,191 @@
+// Settings, per-site state and usage stats owned by the background service worker.
+// Content scripts and the popup never read chrome.storage for these; they ask the worker.
+
+export type Tone = 'neutral' | 'casual' | 'formal';
+export type RewriteTone = 'more-formal' | 'more-casual' | 'as-is';
+export type RewriteLength = 'shorter' | 'as-is' | 'longer';
+// context: extra instruction for the Rewriter (set by presets)
+export type RewriteOptions = { tone: RewriteTone; length: RewriteLength; context?: string };
+export type WriterLength = 'short' | 'medium' | 'long';
+
+// Saved rewrites ("Jira ticket style", "Release note"): one-click buttons in the Rewrite tab and items
+// in the Rewrite context menu
+export type RewritePreset = RewriteOptions & { id: string; name: string };
+
+// How eagerly models are unloaded. pageIdleMs: the content script disposes a page's models after
+// this long without a focused field or open UI (0 = never). modelIdleMs/hiddenIdleMs: the in-page
+// script's own idle timeout for visible/hidden tabs.
+export type MemoryPolicy = 'low' | 'balanced' | 'performance';
+export type MemoryLimits = { disposeOnPanelClose: boolean; pageIdleMs: number; modelIdleMs: number; hiddenIdleMs: number };
+
+// Where the built-in models run. 'page': an in-page script in every tab creates its own instances.
+// 'shared': one offscreen document holds a single set for the whole browser and tabs call it through
+// the background worker; tabs fall back to the page when it can't serve a call.
+export type ModelHost = 'page' | 'shared';
+
+// Model features that can each run on their own provider. 'builtin' is Chrome's built-in AI
+// (Gemini Nano); 'openai' is the OpenAI-compatible server in Settings.openAiServer (a local Ollama or
+// llama.cpp server, or a hosted API), called from the background worker.
+export type AiFeature = 'proofread' | 'rewrite' | 'write' | 'translate' | 'summarize' | 'ask';
+export type AiProvider = 'builtin' | 'openai';
+// baseUrl includes the API version path, e.g. http://localhost:11434/v1; apiKey may stay empty
+export type OpenAiServer = { baseUrl: string; model: string; apiKey: string };
+
+export const MEMORY_POLICIES: Record<MemoryPolicy, MemoryLimits> = {
+  low: { disposeOnPanelClose: true, pageIdleMs: 15_000, modelIdleMs: 15_000, hiddenIdleMs: 10_000 },
+  balanced: { disposeOnPanelClose: true, pageIdleMs: 30_000, modelIdleMs: 30_000, hiddenIdleMs: 20_000 },
+  performance: { disposeOnPanelClose: false, pageIdleMs: 0, modelIdleMs: 5 * 60_000, hiddenIdleMs: 60_000 },
+};
+
+// In-page shortcut actions; the first six are also chrome.commands (see manifest.json)
+export type ShortcutAction =
+  | 'open-panel'
+  | 'proofread-now'
+  | 'accept-suggestion'
+  | 'next-issue'
+  | 'prev-issue'
+  | 'rewrite-selection'
+  | 'undo'
+  | 'redo';
+
+// Combos are modifiers plus a layout-independent key, e.g. "Alt+Shift+P"; '' means unbound
+export type Shortcuts = Record<ShortcutAction, string>;
+
+export const DEFAULT_SHORTCUTS: Shortcuts = {
+  'open-panel': 'Alt+Shift+T',
+  'proofread-now': 'Alt+Shift+P',
+  'accept-suggestion': 'Alt+Shift+Enter',
+  'next-issue': 'Alt+Shift+N',
+  'prev-issue': 'Alt+Shift+B',
+  'rewrite-selection': 'Alt+Shift+R',
+  'undo': 'Alt+Shift+Z',
+  'redo': 'Alt+Shift+Y',
+};
+
+// Stored as top-level keys in chrome.storage.sync (keeps settings saved by older versions)
+export type Settings = {
+  realtimeProofread: boolean;
+  // Pause after typing before a realtime proofread
+  realtimeDebounceMs: number;
+  // Realtime proofread and underlines are skipped for longer fields
+  maxRealtimeChars: number;
+  // Minimum time between consecutive realtime proofread calls
+  minIntervalMs: number;
+  // Rule-based checks (repeated words, spacing, common misspellings, a/an, capitals, brackets) on every
+  // keystroke, merged with the model's underlines
+  localChecks: boolean;
+  rewriteTone: RewriteTone;
+  rewriteLength: RewriteLength;
+  // Writer tone (the key predates the Rewriter defaults)
+  defaultTone: Tone;
+  writerLength: WriterLength;
+  memoryPolicy: MemoryPolicy;
+  modelHost: ModelHost;
+  shortcuts: Shortcuts;
+  // Languages the user writes in (see shared/languages.ts); detection favours them on short or mixed
+  // text, and the first one is used when nothing can be detected
+  preferredLanguages: string[];
+  rewritePresets: RewritePreset[];
+  // Send page title, field label, the thread being replied to and nearby text to Writer/Rewriter
+  usePageContext: boolean;
+  providers: Record<AiFeature, AiProvider>;
+  openAiServer: OpenAiServer;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  realtimeProofread: true,
+  realtimeDebounceMs: 350,
+  maxRealtimeChars: 2000,
+  minIntervalMs: 700,
+  localChecks: true,
+  rewriteTone: 'as-is',
+  rewriteLength: 'as-is',
+  defaultTone: 'neutral',
+  writerLength: 'medium',
+  memoryPolicy: 'balanced',
+  modelHost: 'page',
+  shortcuts: DEFAULT_SHORTCUTS,
+  preferredLanguages: ['en'],
+  rewritePresets: [],
+  usePageContext: false,
+  providers: { proofread: 'builtin', rewrite: 'builtin', write: 'builtin', translate: 'builtin', summarize: 'builtin', ask: 'builtin' },
+  openAiServer: { baseUrl: 'http://localhost:11434/v1', model: '', apiKey: '' },
+};
+
+// Per-origin rules, stored under SITES_KEY in chrome.storage.sync as { [origin]: SiteState }.
+// mode: 'off' never mounts Typerra; 'bubble-only' keeps the bubble/panel but no realtime underlines
+// or in-page shortcuts; 'no-realtime' only turns realtime proofreading off. Unset means on.
+// ignoredFields holds fieldKey()s of fields the user chose "Never on this field" for.
+export type SiteMode = 'off' | 'bubble-only' | 'no-realtime';
+
+export type SiteState = {
+  mode?: SiteMode;
+  rewriteTone?: RewriteTone;
+  rewriteLength?: RewriteLength;
+  writerTone?: Tone;
+  writerLength?: WriterLength;
+  ignoredFields?: string[];
+};
+
+// Patch for a site; null clears a rule back to the global setting
+export type SitePatch = { [K in keyof SiteState]?: SiteState[K] | null };
+
+// Settings as they apply on a site with the given rules
+export function applySiteRules(settings: Settings, site: SiteState): Settings {
+  return {
+    ...settings,
+    realtimeProofread: settings.realtimeProofread && !site.mode,
+    rewriteTone: site.rewriteTone ?? settings.rewriteTone,
+    rewriteLength: site.rewriteLength ?? settings.rewriteLength,
+    defaultTone: site.writerTone ?? settings.defaultTone,
+    writerLength: site.writerLength ?? settings.writerLength,
+  };
+}
+
+export const SITES_KEY = 'sites';
+
+export type UsageAction = 'proofread' | 'rewrite' | 'write' | 'translate' | 'summarize' | 'ask' | 'apply' | 'suggestion';
+
+// Stored under USAGE_KEY in chrome.storage.local; counts are per device
+export type UsageStats = {
+  counts: Partial<Record<UsageAction, number>>;
+  since: number;
+};
+
+export const USAGE_KEY = 'usage';
+
+// Tone/length of the most recent rewrite, stored under LAST_REWRITE_KEY in chrome.storage.local
+export const LAST_REWRITE_KEY = 'lastRewrite';
+
+// Personal dictionary, stored under DICTIONARY_KEY in chrome.storage.sync: words that are never
+// underlined. An all-lowercase entry matches any capitalization; others only match exactly.
+export const DICTIONARY_KEY = 'dictionary';
+
+// "Ignore always" on a suggestion, stored under IGNORE_RULES_KEY in chrome.storage.sync: that exact
+// text is no longer flagged with that replacement (none for ranges that had no suggestion)
+export type IgnoreRule = { text: string; replacement?: string };
+
+export const IGNORE_RULES_KEY = 'ignoreRules';
+
+// The worker splits each list across sync items (background/chunkedSync.ts); sync storage as a whole
+// still holds only about 100 KB, and a save that doesn't fit fails with an error
+export type Dictionary = { words: string[]; ignoreRules: IgnoreRule[] };
+
+export const MAX_DICTIONARY_WORD = 64;
+
+// Trimmed, without blanks, overlong entries or duplicates; the first spelling of a duplicate wins
+export function normalizeWords(words: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const raw of words) {
+    const word = String(raw ?? '').trim();
+    if (!word || word.length > MAX_DICTIONARY_WORD || seen.has(word)) continue;
+    seen.add(word);
+    out.push(word);
+  }
+  return out;
+}
+
+export function sameIgnoreRule(a: IgnoreRule, b: IgnoreRule): boolean {
+  return a.text === b.text && (a.replacement ?? null) === (b.replacement ?? null);
+}
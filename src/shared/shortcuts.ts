@@ -0,0 +1,38 @@
+// Keyboard combo helpers shared by the content script (matching) and the settings UI (recording)
+
+import type { ShortcutAction } from './settings';
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  'open-panel': 'Open panel on the focused field',
+  'proofread-now': 'Proofread now',
+  'accept-suggestion': 'Accept suggestion under the caret',
+  'next-issue': 'Next underlined issue',
+  'prev-issue': 'Previous underlined issue',
+  'rewrite-selection': 'Rewrite selection with the last-used tone',
+  'undo': 'Undo last Typerra change',
+  'redo': 'Redo Typerra change',
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph']);
+
+// "Ctrl+Alt+Shift+Meta+Key" from a keydown; uses e.code so Alt/Option combos work on every layout.
+// Returns null for a lone modifier press.
+export function shortcutFromEvent(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = e.code.startsWith('Key') ? e.code.slice(3)
+    : e.code.startsWith('Digit') ? e.code.slice(5)
+    : e.code;
+  if (!key) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  parts.push(key);
+  return parts.join('+');
+}
+
+// Plain keys and Shift-only combos would fire while typing
+export function isUsableShortcut(combo: string): boolean {
+  return /(^|\+)(Ctrl|Alt|Meta)\+/.test(combo);
+}
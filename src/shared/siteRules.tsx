@@ -0,0 +1,48 @@
+import React from 'react';
+import type { SiteMode, SitePatch, SiteState } from './settings';
+
+// Site rule controls shared by the popup (current tab) and the options page (all sites)
+
+export const SITE_MODE_LABELS: Record<SiteMode | 'on', string> = {
+  on: 'On',
+  'bubble-only': 'Bubble only',
+  'no-realtime': 'Realtime off',
+  off: 'Off',
+};
+
+// '' in a select means "use the global setting"
+const OVERRIDES: Array<{ key: Exclude<keyof SiteState, 'mode' | 'ignoredFields'>; label: string; options: Array<[string, string]> }> = [
+  { key: 'rewriteTone', label: 'Rewrite tone', options: [['more-casual', 'More casual'], ['as-is', 'As-is'], ['more-formal', 'More formal']] },
+  { key: 'rewriteLength', label: 'Rewrite length', options: [['shorter', 'Shorter'], ['as-is', 'As-is'], ['longer', 'Longer']] },
+  { key: 'writerTone', label: 'Writer tone', options: [['formal', 'Formal'], ['neutral', 'Neutral'], ['casual', 'Casual']] },
+  { key: 'writerLength', label: 'Writer length', options: [['short', 'Short'], ['medium', 'Medium'], ['long', 'Long']] },
+];
+
+export function SiteRuleFields({ site, onChange, fontSize = 12 }: { site: SiteState; onChange: (patch: SitePatch) => void; fontSize?: number }) {
+  const row: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8, marginBottom: 4, fontSize };
+  return (
+    <div>
+      <label style={row}>
+        <span>Typerra</span>
+        <select value={site.mode || 'on'} onChange={(e) => onChange({ mode: e.target.value === 'on' ? null : (e.target.value as SiteMode) })}>
+          {(Object.keys(SITE_MODE_LABELS) as Array<SiteMode | 'on'>).map((m) => <option key={m} value={m}>{SITE_MODE_LABELS[m]}</option>)}
+        </select>
+      </label>
+      {site.mode !== 'off' && OVERRIDES.map(({ key, label, options }) => (
+        <label key={key} style={row}>
+          <span>{label}</span>
+          <select value={site[key] || ''} onChange={(e) => onChange({ [key]: e.target.value || null })}>
+            <option value="">Default</option>
+            {options.map(([value, text]) => <option key={value} value={value}>{text}</option>)}
+          </select>
+        </label>
+      ))}
+      {!!site.ignoredFields?.length && (
+        <div style={row}>
+          <span>{site.ignoredFields.length} ignored field{site.ignoredFields.length === 1 ? '' : 's'}</span>
+          <button onClick={() => onChange({ ignoredFields: null })} style={{ fontSize }}>Clear</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,12 +22,18 @@ export default defineConfig({
     rollupOptions: {
       input: {
         inpage: resolve(dirname(fileURLToPath(import.meta.url)), 'src/inpage/index.ts'),
-        popup: resolve(dirname(fileURLToPath(import.meta.url)), 'src/popup/index.html')
+        background: resolve(dirname(fileURLToPath(import.meta.url)), 'src/background/index.ts'),
+        popup: resolve(dirname(fileURLToPath(import.meta.url)), 'src/popup/index.html'),
+        options: resolve(dirname(fileURLToPath(import.meta.url)), 'src/options/index.html'),
+        offscreen: resolve(dirname(fileURLToPath(import.meta.url)), 'src/offscreen/index.html')
       },
       output: {
         ...output,
-        // Disable code splitting so each entry is a single file (no shared chunks like client.js)
-        manualChunks: undefined
+        // The popup and options pages share React through one predictable chunk; small shared
+        // modules (src/shared) get their own chunks, which the module service worker can import
+        // (shared/models.ts becomes assets/models.js for the in-page script and the offscreen host; the
+        // manifest makes it web-accessible so the page can load it)
+        manualChunks: (id: string) => (id.includes('node_modules') ? 'vendor' : undefined)
       }
     },
     emptyOutDir: true,